@@ -0,0 +1,92 @@
+import { AnyColumn, avg, count, max, min, SQL, sum } from "drizzle-orm";
+import { Argument, ASTNode, CallExpression } from "./ast";
+import { DiagnosticCode } from "./diagnostics";
+import type { ColumnMap, FilterGeneratorOptions } from "./generator";
+import { resolveColumnPath } from "./relations";
+
+/**
+ * The Drizzle functions behind the aggregates that may be used as operands in aggregate mode
+ * (see FilterGeneratorOptions.aggregates). `count()` without a column counts rows.
+ */
+export const AGGREGATE_FUNCTIONS: Record<string, (column: AnyColumn | undefined) => SQL> = {
+    count: column => count(column),
+    sum: column => sum(column!),
+    avg: column => avg(column!),
+    min: column => min(column!),
+    max: column => max(column!),
+};
+
+/**
+ * Whether `sum` and `avg` can be applied to a column: numeric columns, including decimals that Drizzle reads as
+ * strings (e.g., PostgreSQL `numeric`). Columns without a data type are not checked.
+ */
+function isNumericColumn(column: AnyColumn): boolean {
+    return !column.dataType || column.dataType === 'number' || column.dataType === 'bigint' || /Numeric|Decimal/.test(column.columnType);
+}
+
+/**
+ * The column an aggregate call is applied to (undefined for `count()`), or the problem with its arguments.
+ */
+export type AggregateOperand =
+    | { column: AnyColumn | undefined }
+    | { problem: { message: string; code: DiagnosticCode; node: ASTNode } };
+
+/**
+ * Whether the name is one of the AGGREGATE_FUNCTIONS.
+ */
+export function isAggregateFunction(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(AGGREGATE_FUNCTIONS, name);
+}
+
+/**
+ * Whether the node is a call to one of the AGGREGATE_FUNCTIONS.
+ */
+export function isAggregateCall(node: Argument): node is CallExpression {
+    return node.kind === 'CallExpression' && isAggregateFunction(node.functionName);
+}
+
+/**
+ * Whether values compared with the aggregate have the data type of its column, and are coerced to it:
+ * true for `min` and `max`; counts, sums and averages are numbers regardless of the column.
+ */
+export function keepsColumnType(node: CallExpression): boolean {
+    return node.functionName === 'min' || node.functionName === 'max';
+}
+
+/**
+ * Resolves the column argument of an aggregate call the way the FilterGenerator resolves columns: a column reference,
+ * or (outside strict mode) a string naming a column. Columns of related tables cannot be aggregated, and `sum` and
+ * `avg` only apply to numeric columns.
+ */
+export function resolveAggregateOperand(
+    node: CallExpression,
+    columnMap: ColumnMap,
+    options: Pick<FilterGeneratorOptions, 'strict'>,
+): AggregateOperand {
+    const [arg, ...rest] = node.args;
+    if (rest.length > 0 || (!arg && node.functionName !== 'count')) {
+        const expected = node.functionName === 'count' ? 'at most 1 argument' : '1 argument';
+        return { problem: { message: `'${node.functionName}' expects ${expected} but got ${node.args.length}.`, code: 'ARGUMENT_COUNT', node } };
+    }
+    if (!arg) {
+        return { column: undefined };
+    }
+
+    const name = arg.kind === 'ColumnReference' ? arg.name : arg.kind === 'StringLiteral' && !options.strict ? arg.value : undefined;
+    if (name === undefined) {
+        const expected = options.strict ? 'a column reference' : 'a column name';
+        return { problem: { message: `'${node.functionName}' expects ${expected}.`, code: 'TYPE_MISMATCH', node: arg } };
+    }
+
+    const resolved = resolveColumnPath(columnMap, name);
+    if (!resolved) {
+        return { problem: { message: `Unknown column '${name}'.`, code: 'UNKNOWN_COLUMN', node: arg } };
+    }
+    if (resolved.relations.length > 0) {
+        return { problem: { message: `Cannot aggregate '${name}': it is a column of a related table.`, code: 'TYPE_MISMATCH', node: arg } };
+    }
+    if ((node.functionName === 'sum' || node.functionName === 'avg') && !isNumericColumn(resolved.column)) {
+        return { problem: { message: `'${node.functionName}' cannot be applied to column '${name}' of type ${resolved.column.dataType}.`, code: 'TYPE_MISMATCH', node: arg } };
+    }
+    return { column: resolved.column };
+}
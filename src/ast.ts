@@ -1,7 +1,14 @@
 import { SQL } from "drizzle-orm";
 
+/**
+ * Base shape of every AST node.
+ * `start`/`end` are the node's source span (0-based offsets, `end` exclusive). The Parser always
+ * sets them; they are optional so ASTs can also be built by hand.
+ */
 export interface ASTNode {
     kind: string;
+    start?: number;
+    end?: number;
 }
 
 /**
@@ -11,7 +18,7 @@ export interface ASTNode {
 export interface CallExpression extends ASTNode {
     kind: 'CallExpression';
     functionName: string; // e.g., "eq", "and", "or", "like"
-    args: (StringLiteral | NumberLiteral | CallExpression)[]; // Arguments can be string literals, number literals, or nested call expressions.
+    args: Argument[]; // Arguments can be literals, array literals, or nested call expressions.
 }
 
 /**
@@ -30,6 +37,74 @@ export interface NumberLiteral extends ASTNode {
     value: number; // The actual numeric value
 }
 
+/**
+ * Represents a boolean literal (`true` or `false`).
+ */
+export interface BooleanLiteral extends ASTNode {
+    kind: 'BooleanLiteral';
+    value: boolean;
+}
+
+/**
+ * Represents the `null` keyword.
+ */
+export interface NullLiteral extends ASTNode {
+    kind: 'NullLiteral';
+    value: null;
+}
+
+/**
+ * Represents a typed date literal (e.g., date("2024-01-01")).
+ * The generator turns it into a JS Date before calling Drizzle operators.
+ */
+export interface DateLiteral extends ASTNode {
+    kind: 'DateLiteral';
+    value: string; // The date text as written, guaranteed to be parseable by `Date`
+}
+
+/**
+ * Represents an explicit reference to a column of the ColumnMap, written as a bare identifier (e.g., `name`)
+ * or as `col("name")` for names that are not valid identifiers.
+ * Unlike a StringLiteral, it is never treated as a value.
+ */
+export interface ColumnReference extends ASTNode {
+    kind: 'ColumnReference';
+    name: string; // The ColumnMap key
+}
+
+/**
+ * Represents a named placeholder of a filter template (e.g., `$tenant`).
+ * Its value is supplied when the template is bound (see FilterTemplate).
+ */
+export interface Placeholder extends ASTNode {
+    kind: 'Placeholder';
+    name: string; // The name without the leading '$'
+}
+
+/**
+ * Any literal holding a single value.
+ */
+export type ScalarLiteral = StringLiteral | NumberLiteral | BooleanLiteral | NullLiteral | DateLiteral;
+
+/**
+ * The JS value a literal is turned into by the generator.
+ */
+export type LiteralValue = string | number | boolean | null | Date;
+
+/**
+ * Represents an array literal (e.g., ["a", "b", 3]).
+ * Used as the list operand of inArray / notInArray.
+ */
+export interface ArrayLiteral extends ASTNode {
+    kind: 'ArrayLiteral';
+    elements: ScalarLiteral[]; // Only scalar literals are allowed as elements
+}
+
+/**
+ * Any node that may appear as an argument of a CallExpression.
+ */
+export type Argument = ScalarLiteral | ColumnReference | ArrayLiteral | Placeholder | CallExpression;
+
 /**
  * Represents the root of the AST, which is typically a single expression.
  */
@@ -38,6 +113,25 @@ export interface Program extends ASTNode {
     expression: CallExpression; // The top-level expression (e.g., and(...), or(...), or a single comparison)
 }
 
+/**
+ * Represents one key of a sort string (e.g., `desc(createdAt, nullsLast)`).
+ * `nulls` is only set when the sort string says where NULLs go.
+ */
+export interface SortKey extends ASTNode {
+    kind: 'SortKey';
+    column: string; // The ColumnMap key
+    direction: 'asc' | 'desc';
+    nulls?: 'first' | 'last';
+}
+
+/**
+ * Represents the root of a parsed sort string: its keys in order of precedence.
+ */
+export interface SortProgram extends ASTNode {
+    kind: 'SortProgram';
+    keys: SortKey[];
+}
+
 /**
  * Type representing a Drizzle ORM filter expression, which is essentially a Drizzle SQL object.
  * This type is used as the return type for our filter generation.
@@ -0,0 +1,133 @@
+import { AnyColumn } from "drizzle-orm";
+import { ASTNode, LiteralValue } from "./ast";
+import { ParserError, spanOf } from "./diagnostics";
+
+/**
+ * A literal value after it has been converted to match its target column.
+ * bigint columns receive native `bigint` values.
+ */
+export type CoercedValue = LiteralValue | bigint;
+
+/**
+ * Thrown when a literal cannot be converted to the data type of the column it is compared with.
+ * The offending AST node is attached so callers can point back at the input.
+ */
+export class CoercionError extends ParserError {
+    constructor(message: string, public node?: ASTNode) {
+        super(message, undefined, 'COERCION_FAILED', spanOf(node));
+        this.name = 'CoercionError';
+    }
+}
+
+/**
+ * Drizzle column types whose `number` values must be integers.
+ */
+const INTEGER_COLUMN_TYPES = [
+    'PgInteger', 'PgSmallInt', 'PgSerial', 'PgSmallSerial', 'PgBigInt53', 'PgBigSerial53',
+    'MySqlInt', 'MySqlTinyInt', 'MySqlSmallInt', 'MySqlMediumInt', 'MySqlBigInt53', 'MySqlSerial', 'MySqlYear',
+    'SQLiteInteger',
+];
+
+/**
+ * Converts a literal value to the JS type expected by the given Drizzle column,
+ * based on the column's `dataType` (and `columnType` for integer checks).
+ * Values for data types without a known conversion are passed through unchanged.
+ *
+ * @param value The literal value taken from the AST.
+ * @param column The column the value is compared against.
+ * @param node The AST node the value came from, attached to any thrown error.
+ * @returns The converted value.
+ * @throws CoercionError if the value cannot be represented in the column's type.
+ */
+export function coerceValue(value: LiteralValue, column: AnyColumn, node?: ASTNode): CoercedValue {
+    // NULL is a valid operand for every column type.
+    if (value === null) {
+        return value;
+    }
+
+    const fail = (expected: string): never => {
+        throw new CoercionError(
+            `Cannot coerce value ${describeValue(value)} to ${expected} for column '${column.name}'.`,
+            node,
+        );
+    };
+
+    switch (column.dataType) {
+        case 'number': {
+            let numericValue: number;
+            if (typeof value === 'number') {
+                numericValue = value;
+            } else if (typeof value === 'string' && value.trim() !== '') {
+                numericValue = Number(value);
+            } else {
+                return fail('number');
+            }
+            if (!Number.isFinite(numericValue)) {
+                return fail('number');
+            }
+            if (INTEGER_COLUMN_TYPES.includes(column.columnType) && !Number.isInteger(numericValue)) {
+                return fail('integer');
+            }
+            return numericValue;
+        }
+        case 'bigint': {
+            if (typeof value === 'number' && Number.isInteger(value)) {
+                return BigInt(value);
+            }
+            if (typeof value === 'string' && /^\s*-?\d+\s*$/.test(value)) {
+                return BigInt(value.trim());
+            }
+            return fail('bigint');
+        }
+        case 'boolean': {
+            if (typeof value === 'boolean') {
+                return value;
+            }
+            if (value === 1 || value === 0) {
+                return value === 1;
+            }
+            if (typeof value === 'string') {
+                const normalized = value.trim().toLowerCase();
+                if (normalized === 'true' || normalized === '1') return true;
+                if (normalized === 'false' || normalized === '0') return false;
+            }
+            return fail('boolean');
+        }
+        case 'date': {
+            if (value instanceof Date) {
+                return value;
+            }
+            if (typeof value === 'string' || typeof value === 'number') {
+                const dateValue = new Date(value);
+                if (!isNaN(dateValue.getTime())) {
+                    return dateValue;
+                }
+            }
+            return fail('date');
+        }
+        case 'string': {
+            let stringValue: string;
+            if (typeof value === 'string') {
+                stringValue = value;
+            } else if (value instanceof Date) {
+                stringValue = value.toISOString();
+            } else {
+                stringValue = String(value);
+            }
+            // Enum columns only accept one of their declared values.
+            const enumValues = column.enumValues as string[] | undefined;
+            if (enumValues && enumValues.length > 0 && !enumValues.includes(stringValue)) {
+                return fail(`one of [${enumValues.join(', ')}]`);
+            }
+            return stringValue;
+        }
+        case 'json':
+        default:
+            // JSON columns accept any value, and custom/array/buffer columns are left to the driver.
+            return value;
+    }
+}
+
+function describeValue(value: LiteralValue): string {
+    return value instanceof Date ? `date(${JSON.stringify(value.toISOString())})` : JSON.stringify(value);
+}
@@ -0,0 +1,149 @@
+import { getTableColumns, is, Table } from "drizzle-orm";
+import type { ColumnMap } from "./generator";
+
+/**
+ * How column names are written in filter strings:
+ * `preserve` keeps the table's property names, `camel` turns `created_at` into `createdAt`
+ * and `snake` turns `createdAt` into `created_at`.
+ */
+export type NameCase = 'preserve' | 'camel' | 'snake';
+
+/**
+ * Options for deriving a ColumnMap from a table. Column keys are the table's property names (before normalization).
+ */
+export interface ColumnMapOptions<TKey extends string = string> {
+    /** Only these columns are mapped. */
+    include?: readonly TKey[];
+    /** These columns are left out. */
+    exclude?: readonly TKey[];
+    /** Additional names for columns, e.g. `{ created: 'createdAt' }`. Aliases are not normalized. */
+    aliases?: Readonly<Record<string, TKey>>;
+    /** How column names are normalized. Defaults to `preserve`. */
+    case?: NameCase;
+}
+
+/**
+ * Converts a snake_case name to camelCase, e.g. `created_at` to `createdAt`.
+ */
+export type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}` ? `${Head}${Capitalize<CamelCase<Tail>>}` : S;
+
+/**
+ * Converts a camelCase name to snake_case, e.g. `createdAt` to `created_at`.
+ */
+export type SnakeCase<S extends string> = SnakeCaseChars<Uncapitalize<S>>;
+
+type SnakeCaseChars<S extends string> = S extends `${infer Char}${infer Rest}`
+    ? `${Char extends Lowercase<Char> ? Char : `_${Lowercase<Char>}`}${SnakeCaseChars<Rest>}`
+    : S;
+
+/**
+ * The property names of a table's columns.
+ */
+export type ColumnKey<TTable extends Table> = keyof TTable['_']['columns'] & string;
+
+type SelectedKeys<TKey extends string, TOptions> = Exclude<
+    TOptions extends { include: readonly (infer Included)[] } ? Extract<TKey, Included> : TKey,
+    TOptions extends { exclude: readonly (infer Excluded)[] } ? Excluded : never
+>;
+
+type NormalizedName<TKey extends string, TOptions> =
+    TOptions extends { case: 'camel' } ? CamelCase<TKey>
+    : TOptions extends { case: 'snake' } ? SnakeCase<TKey>
+    : TKey;
+
+/**
+ * The ColumnMap derived from a table with the given options. Its keys are the names allowed in filter strings,
+ * and each value keeps the column's own type.
+ */
+export type TableColumnMap<TTable extends Table, TOptions = {}> = {
+    [K in SelectedKeys<ColumnKey<TTable>, TOptions> as NormalizedName<K, TOptions>]: TTable['_']['columns'][K];
+} & (TOptions extends { aliases: infer Aliases extends Readonly<Record<string, ColumnKey<TTable>>> }
+    ? { [A in keyof Aliases & string]: TTable['_']['columns'][Aliases[A]] }
+    : {});
+
+/**
+ * The column names allowed by a ColumnMap, as a string union.
+ */
+export type ColumnName<TColumnMap> = keyof TColumnMap & string;
+
+/**
+ * Builds a ColumnMap from a Drizzle table, so it follows the schema instead of being written by hand.
+ *
+ * Example:
+ * ```ts
+ * const columnMap = columnMapFromTable(users, { exclude: ['passwordHash'], aliases: { created: 'createdAt' } });
+ * // { id, name, createdAt, created }, typed so that ColumnName<typeof columnMap> is 'id' | 'name' | 'createdAt' | 'created'
+ * ```
+ *
+ * @param table The Drizzle table whose columns are mapped.
+ * @param options Which columns to map and how to name them.
+ */
+export function columnMapFromTable<TTable extends Table, const TOptions extends ColumnMapOptions<ColumnKey<TTable>> = {}>(
+    table: TTable,
+    options?: TOptions,
+): TableColumnMap<TTable, TOptions> {
+    const columns: ColumnMap = getTableColumns(table);
+    const columnMap: ColumnMap = {};
+
+    for (const [key, column] of Object.entries(columns)) {
+        if ((options?.include && !options.include.includes(key)) || options?.exclude?.includes(key)) {
+            continue;
+        }
+        columnMap[normalizeName(key, options?.case ?? 'preserve')] = column;
+    }
+
+    for (const [alias, key] of Object.entries(options?.aliases ?? {})) {
+        const column = columns[key];
+        if (!column) {
+            throw new Error(`Cannot alias '${alias}' to unknown column '${key}'.`);
+        }
+        columnMap[alias] = column;
+    }
+
+    return columnMap as TableColumnMap<TTable, TOptions>;
+}
+
+/**
+ * The ColumnMaps derived from every table of a schema module, keyed by the table's export name.
+ */
+export type SchemaColumnMaps<TSchema, TOptions = {}> = {
+    [K in keyof TSchema as TSchema[K] extends Table ? K : never]: TSchema[K] extends Table ? TableColumnMap<TSchema[K], TOptions> : never;
+};
+
+/**
+ * Builds a ColumnMap for every table exported by a schema module (e.g., `import * as schema from './schema'`).
+ * Other exports, such as relations and enums, are skipped.
+ *
+ * @param schema The schema module.
+ * @param options How column names are normalized, applied to every table.
+ */
+export function columnMapsFromSchema<TSchema extends Record<string, unknown>, const TOptions extends Pick<ColumnMapOptions, 'case'> = {}>(
+    schema: TSchema,
+    options?: TOptions,
+): SchemaColumnMaps<TSchema, TOptions> {
+    const columnMaps: Record<string, ColumnMap> = {};
+    for (const [name, value] of Object.entries(schema)) {
+        if (is(value, Table)) {
+            columnMaps[name] = columnMapFromTable(value, options);
+        }
+    }
+    return columnMaps as SchemaColumnMaps<TSchema, TOptions>;
+}
+
+/**
+ * Applies a NameCase at runtime, matching the CamelCase and SnakeCase types.
+ */
+export function normalizeName(name: string, nameCase: NameCase): string {
+    switch (nameCase) {
+        case 'camel': {
+            const [head, ...tail] = name.split('_');
+            return head + tail.map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+        }
+        case 'snake': {
+            const uncapitalized = name.charAt(0).toLowerCase() + name.slice(1);
+            return uncapitalized.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`);
+        }
+        case 'preserve':
+            return name;
+    }
+}
@@ -0,0 +1,146 @@
+import { ASTNode } from "./ast";
+import type { Token } from "./lexer";
+
+/**
+ * A range of the input string: `start` is inclusive, `end` is exclusive (both 0-based offsets).
+ */
+export interface SourceSpan {
+    start: number;
+    end: number;
+}
+
+/**
+ * Machine-readable codes for every problem reported by the Lexer, Parser, Validator, PolicyEnforcer, FilterGenerator,
+ * filter templates, sort strings, query parameters and the JSON and Mongo-style readers.
+ */
+export type DiagnosticCode =
+    | 'UNCLOSED_STRING'       // Lexer: a string literal is missing its closing quote
+    | 'UNEXPECTED_TOKEN'      // Parser: the input does not match the grammar
+    | 'INVALID_NUMBER'        // Parser: a number literal cannot be parsed
+    | 'INVALID_DATE'          // Parser: a date("...") literal cannot be parsed
+    | 'UNSUPPORTED_FUNCTION'  // Generator/Validator: no Drizzle operator is registered under the name
+    | 'UNKNOWN_NODE'          // Generator: the AST contains a node of an unknown kind
+    | 'COERCION_FAILED'       // Generator/Validator: a literal does not fit the data type of its column
+    | 'DRIZZLE_CALL_FAILED'   // Generator: the Drizzle operator threw
+    | 'UNKNOWN_COLUMN'        // Generator/Validator: a column name is not in the ColumnMap
+    | 'ARGUMENT_COUNT'        // Validator/Generator: an operator or aggregate got the wrong number of arguments
+    | 'TYPE_MISMATCH'         // Validator: an argument has the wrong kind or type for its operator
+    | 'OPERATOR_NOT_ALLOWED'  // Policy: the operator is not allowed, globally or on the column
+    | 'COLUMN_NOT_ALLOWED'    // Policy: the column is not in the column allowlist
+    | 'MAX_DEPTH_EXCEEDED'    // Parser/Policy: function calls are nested too deeply
+    | 'MAX_NODES_EXCEEDED'    // Policy: the filter has too many nodes
+    | 'MAX_ARRAY_LENGTH_EXCEEDED'  // Policy: an array literal has too many elements
+    | 'MAX_STRING_LENGTH_EXCEEDED' // Policy: a string literal is too long
+    | 'INVALID_JSON'          // JSON: a filter JSON tree or a Mongo-style query is invalid
+    | 'MISSING_PARAMETER'     // Template/Generator: no value is bound to a placeholder
+    | 'UNKNOWN_PARAMETER'     // Template: a value is given for a placeholder the template does not have
+    | 'INVALID_PARAMETER'     // Template/Generator: a value does not fit its placeholder (e.g., a scalar for a list)
+    | 'UNSORTABLE_COLUMN'     // Sort: the column is on a related table, which ORDER BY cannot reach
+    | 'INVALID_CURSOR'        // Sort: a keyset cursor has no value for a sort column
+    | 'INVALID_QUERY_PARAMETER'; // Query parameters: a limit, offset or fields value is invalid
+
+/**
+ * A positioned, human-readable description of a problem in a filter string.
+ * Lines and columns are 1-based; `endLine`/`endColumn` point just past the offending range.
+ */
+export interface Diagnostic {
+    code: DiagnosticCode;
+    message: string;
+    start: number;
+    end: number;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    /**
+     * The offending source line with a caret underline, e.g.
+     * ```
+     * eq("age", "abc")
+     *           ^^^^^
+     * ```
+     */
+    excerpt: string;
+}
+
+/**
+ * The error thrown by every stage (Lexer, Parser and FilterGenerator).
+ * It carries a diagnostic code and, when known, the span of the input it refers to.
+ */
+export class ParserError extends Error {
+    public code: DiagnosticCode;
+    public span: SourceSpan | undefined;
+
+    constructor(message: string, public token?: Token, code: DiagnosticCode = 'UNEXPECTED_TOKEN', span?: SourceSpan) {
+        super(message);
+        this.name = 'ParserError';
+        this.code = code;
+        this.span = span ?? (token ? { start: token.position, end: token.end } : undefined);
+    }
+
+    /**
+     * Builds a Diagnostic for this error against the source string it was raised for.
+     * Errors without a span (e.g., from hand-built ASTs) cover the whole input.
+     */
+    public toDiagnostic(source: string): Diagnostic {
+        return createDiagnostic(source, this.code, this.message, this.span ?? { start: 0, end: source.length });
+    }
+}
+
+/**
+ * Returns the span of a node produced by the Parser, or undefined for nodes built without locations.
+ */
+export function spanOf(node: ASTNode | undefined): SourceSpan | undefined {
+    if (node?.start === undefined || node.end === undefined) {
+        return undefined;
+    }
+    return { start: node.start, end: node.end };
+}
+
+/**
+ * Creates a Diagnostic, resolving the span to line/column numbers and a caret excerpt.
+ */
+export function createDiagnostic(source: string, code: DiagnosticCode, message: string, span: SourceSpan): Diagnostic {
+    const start = Math.max(0, Math.min(span.start, source.length));
+    const end = Math.max(start, Math.min(span.end, source.length));
+    const startLocation = locate(source, start);
+    const endLocation = locate(source, end);
+
+    return {
+        code,
+        message,
+        start,
+        end,
+        line: startLocation.line,
+        column: startLocation.column,
+        endLine: endLocation.line,
+        endColumn: endLocation.column,
+        excerpt: formatExcerpt(source, start, end),
+    };
+}
+
+/**
+ * Renders the line containing `start` followed by a caret underline of the range.
+ * Ranges spanning several lines are underlined up to the end of the first line;
+ * empty ranges (e.g., at end of input) get a single caret.
+ */
+export function formatExcerpt(source: string, start: number, end: number): string {
+    const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+    const newlineIndex = source.indexOf('\n', start);
+    const lineEnd = newlineIndex === -1 ? source.length : newlineIndex;
+    const lineText = source.substring(lineStart, lineEnd);
+
+    const caretCount = Math.max(1, Math.min(end, lineEnd) - start);
+    return `${lineText}\n${' '.repeat(start - lineStart)}${'^'.repeat(caretCount)}`;
+}
+
+function locate(source: string, offset: number): { line: number; column: number } {
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < offset; i++) {
+        if (source[i] === '\n') {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    return { line, column: offset - lineStart + 1 };
+}
@@ -0,0 +1,385 @@
+import { Argument, ASTNode, CallExpression, LiteralValue, Program, ScalarLiteral } from "./ast";
+import { CoercionError } from "./coercion";
+import { ParserError, spanOf } from "./diagnostics";
+import { BuiltInOperatorName, OPERATOR_SIGNATURES } from "./operators";
+
+/**
+ * The result of a condition under SQL's three-valued logic: `null` stands for UNKNOWN
+ * (e.g., any comparison with NULL). A row matches a filter only when the result is `true`.
+ */
+export type Truth = boolean | null;
+
+/**
+ * Options controlling how the Evaluator reads records.
+ */
+export interface EvaluatorOptions {
+    /**
+     * Quoted strings are always values, as in FilterGeneratorOptions.strict.
+     * Otherwise a quoted string naming a property of the record is read as a column, like the generator does.
+     */
+    strict?: boolean;
+    /**
+     * Convert literals to the type of the record value they are compared with (e.g., "25" to 25 for a number),
+     * mirroring value coercion for columns. Defaults to true.
+     */
+    coerceValues?: boolean;
+}
+
+/**
+ * A plain JS object holding one row, e.g. a cached row or a change event.
+ * Dotted column names read nested objects; arrays of objects along the way are related rows.
+ */
+export type FilterRecord = Record<string, unknown>;
+
+type ComparisonOperatorName = Exclude<BuiltInOperatorName, 'and' | 'or' | 'not'>;
+
+/**
+ * An argument of a comparison after it has been read from the record.
+ * A column has several candidate values when its path goes through related rows.
+ */
+type Operand =
+    | { kind: 'column'; name: string; values: unknown[]; related: boolean }
+    | { kind: 'value'; value: LiteralValue; node: ScalarLiteral }
+    | { kind: 'list'; values: LiteralValue[]; nodes: ScalarLiteral[] };
+
+/**
+ * In-memory implementations of the built-in comparison operators, following SQL semantics.
+ * Arguments arrive coerced; `null` stands for NULL.
+ */
+const COMPARISONS: Record<ComparisonOperatorName, (args: unknown[]) => Truth> = {
+    eq: ([a, b]) => compareNullable(a, b, order => order === 0),
+    ne: ([a, b]) => compareNullable(a, b, order => order !== 0),
+    gt: ([a, b]) => compareNullable(a, b, order => order > 0),
+    gte: ([a, b]) => compareNullable(a, b, order => order >= 0),
+    lt: ([a, b]) => compareNullable(a, b, order => order < 0),
+    lte: ([a, b]) => compareNullable(a, b, order => order <= 0),
+    like: ([a, pattern]) => matchLike(a, pattern, false),
+    ilike: ([a, pattern]) => matchLike(a, pattern, true),
+    notLike: ([a, pattern]) => not3(matchLike(a, pattern, false)),
+    notIlike: ([a, pattern]) => not3(matchLike(a, pattern, true)),
+    isNull: ([a]) => a === null,
+    isNotNull: ([a]) => a !== null,
+    inArray: ([a, list]) => isIn(a, list as unknown[]),
+    notInArray: ([a, list]) => (list as unknown[]).length === 0 ? true : not3(isIn(a, list as unknown[])),
+    between: ([a, low, high]) => and3([COMPARISONS.gte([a, low]), COMPARISONS.lte([a, high])]),
+    notBetween: ([a, low, high]) => not3(COMPARISONS.between([a, low, high])),
+    arrayContains: ([a, list]) => compareArrays(a, list, (values, list) => list.every(value => includesValue(values, value))),
+    arrayContained: ([a, list]) => compareArrays(a, list, (values, list) => values.every(value => includesValue(list, value))),
+    arrayOverlaps: ([a, list]) => compareArrays(a, list, (values, list) => list.some(value => includesValue(values, value))),
+};
+
+/**
+ * Operators whose `value` arguments are patterns, which are never coerced.
+ */
+const PATTERN_OPERATORS: string[] = ['like', 'ilike', 'notLike', 'notIlike'];
+
+/**
+ * The Evaluator applies a filter to plain JS objects instead of a database, e.g. to cached rows or change events.
+ * It mirrors the SQL the FilterGenerator produces for the built-in operators: comparisons with NULL are UNKNOWN,
+ * `and`/`or`/`not` follow three-valued logic, and like/ilike use `%`, `_` and `\` as in PostgreSQL.
+ *
+ * Missing properties are read as NULL. A dotted column name (e.g., `posts.title`) reads nested objects; when it
+ * goes through an array of related rows, the comparison holds if it holds for some row, like the EXISTS subquery
+ * generated for relations.
+ */
+export class Evaluator {
+    private options: EvaluatorOptions;
+
+    constructor(options: EvaluatorOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Checks whether a record matches the filter.
+     *
+     * @param ast The root of the AST (Program node).
+     * @param record The record to check.
+     * @returns true if the filter is TRUE for the record; false if it is FALSE or UNKNOWN.
+     */
+    public evaluate(ast: Program, record: FilterRecord): boolean {
+        return this.evaluateTruth(ast, record) === true;
+    }
+
+    /**
+     * Evaluates the filter for a record under three-valued logic.
+     *
+     * @returns true, false or null (UNKNOWN). A filter without conditions (e.g., `and()`) is true.
+     * @throws ParserError for unsupported operators, wrong argument counts and values that cannot be compared
+     * (e.g., a record value that is not an array for arrayContains), and CoercionError for values that
+     * cannot be converted to the type of the record value they are compared with.
+     */
+    public evaluateTruth(ast: Program, record: FilterRecord): Truth {
+        const truth = this.evaluateCall(ast.expression, record);
+        return truth === undefined ? true : truth;
+    }
+
+    /**
+     * Evaluates a call; undefined means "no condition", like the undefined filter Drizzle returns for an empty `and()`.
+     */
+    private evaluateCall(node: CallExpression, record: FilterRecord): Truth | undefined {
+        switch (node.functionName) {
+            case 'and':
+            case 'or': {
+                const operands = this.evaluateOperands(node, record);
+                return operands.length === 0 ? undefined : node.functionName === 'and' ? and3(operands) : or3(operands);
+            }
+            case 'not': {
+                const [operand] = this.evaluateOperands(node, record);
+                return operand === undefined ? undefined : not3(operand);
+            }
+        }
+
+        const signature = OPERATOR_SIGNATURES[node.functionName as ComparisonOperatorName];
+        if (!Object.hasOwn(COMPARISONS, node.functionName) || !signature) {
+            throw new ParserError(`Unsupported function for in-memory evaluation: '${node.functionName}'.`, undefined, 'UNSUPPORTED_FUNCTION', spanOf(node));
+        }
+        if (node.args.length !== signature.params.length) {
+            throw new ParserError(
+                `'${node.functionName}' expects ${signature.params.length} argument(s) but got ${node.args.length}.`,
+                undefined,
+                'ARGUMENT_COUNT',
+                spanOf(node),
+            );
+        }
+        return this.evaluateComparison(node, record);
+    }
+
+    private evaluateOperands(node: CallExpression, record: FilterRecord): Truth[] {
+        return node.args
+            .map(arg => {
+                if (arg.kind !== 'CallExpression') {
+                    throw new ParserError(`'${node.functionName}' expects filters as arguments.`, undefined, 'TYPE_MISMATCH', spanOf(arg));
+                }
+                return this.evaluateCall(arg, record);
+            })
+            .filter((truth): truth is Truth => truth !== undefined);
+    }
+
+    /**
+     * Evaluates a comparison for every combination of candidate column values.
+     * Through related rows, it is TRUE if some combination is TRUE and FALSE otherwise, as EXISTS is never UNKNOWN.
+     */
+    private evaluateComparison(node: CallExpression, record: FilterRecord): Truth {
+        const operands = node.args.map(arg => this.readOperand(arg, node.functionName, record));
+        const compare = COMPARISONS[node.functionName as ComparisonOperatorName];
+        const coerce = this.options.coerceValues !== false && !PATTERN_OPERATORS.includes(node.functionName);
+
+        const results = bindings(operands).map(args => {
+            const target = operands.find(operand => operand.kind === 'column');
+            const sample = target ? args[operands.indexOf(target)] : null;
+            const coerced = operands.map((operand, i) => {
+                if (!coerce || sample === null || Array.isArray(sample) || operand.kind === 'column') {
+                    return args[i];
+                }
+                return operand.kind === 'value'
+                    ? coerceToSample(operand.value, sample, target!.name, operand.node)
+                    : operand.values.map((value, j) => coerceToSample(value, sample, target!.name, operand.nodes[j]!));
+            });
+            return compare(coerced);
+        });
+
+        const related = operands.some(operand => operand.kind === 'column' && operand.related);
+        return related ? results.includes(true) : results[0] ?? null;
+    }
+
+    private readOperand(arg: Argument, functionName: string, record: FilterRecord): Operand {
+        switch (arg.kind) {
+            case 'ColumnReference':
+                return { kind: 'column', name: arg.name, ...readPath(record, arg.name) };
+            case 'ArrayLiteral':
+                return { kind: 'list', values: arg.elements.map(literalValue), nodes: arg.elements };
+            case 'CallExpression':
+                throw new ParserError(`'${functionName}' does not accept a filter as an argument.`, undefined, 'TYPE_MISMATCH', spanOf(arg));
+            case 'Placeholder':
+                throw new ParserError(`Placeholder '$${arg.name}' has no value for in-memory evaluation.`, undefined, 'MISSING_PARAMETER', spanOf(arg));
+            case 'StringLiteral':
+                if (!this.options.strict && hasPath(record, arg.value)) {
+                    return { kind: 'column', name: arg.value, ...readPath(record, arg.value) };
+                }
+        }
+        return { kind: 'value', value: literalValue(arg), node: arg };
+    }
+}
+
+function literalValue(node: ScalarLiteral): LiteralValue {
+    return node.kind === 'DateLiteral' ? new Date(node.value) : node.value;
+}
+
+/**
+ * Whether a column name can be read from the record: a property, or a dotted path starting with one.
+ */
+function hasPath(record: FilterRecord, name: string): boolean {
+    return Object.hasOwn(record, name) || Object.hasOwn(record, name.split('.')[0]!);
+}
+
+/**
+ * Reads the candidate values of a column. A property named like the whole column name wins over a dotted path.
+ */
+function readPath(record: FilterRecord, name: string): { values: unknown[]; related: boolean } {
+    if (Object.hasOwn(record, name) || !name.includes('.')) {
+        return { values: [record[name] ?? null], related: false };
+    }
+
+    const segments = name.split('.');
+    let rows: unknown[] = [record];
+    segments.forEach((segment, i) => {
+        const isLast = i === segments.length - 1;
+        rows = rows.flatMap(row => {
+            if (typeof row !== 'object' || row === null || !Object.hasOwn(row, segment)) {
+                return [];
+            }
+            const value = (row as Record<string, unknown>)[segment];
+            if (isLast) {
+                return [value ?? null];
+            }
+            // Arrays along the path hold related rows (one-to-many); null means there is no related row.
+            return Array.isArray(value) ? value : value === null || value === undefined ? [] : [value];
+        });
+    });
+    return { values: rows, related: true };
+}
+
+/**
+ * Every combination of the candidate values of the column operands, as argument lists.
+ */
+function bindings(operands: Operand[]): unknown[][] {
+    return operands.reduce<unknown[][]>((partials, operand) => {
+        const choices = operand.kind === 'column' ? operand.values : [operand.kind === 'value' ? operand.value : operand.values];
+        return partials.flatMap(partial => choices.map(choice => [...partial, choice]));
+    }, [[]]);
+}
+
+function and3(values: Truth[]): Truth {
+    return values.includes(false) ? false : values.includes(null) ? null : true;
+}
+
+function or3(values: Truth[]): Truth {
+    return values.includes(true) ? true : values.includes(null) ? null : false;
+}
+
+function not3(value: Truth): Truth {
+    return value === null ? null : !value;
+}
+
+function compareNullable(a: unknown, b: unknown, test: (order: number) => boolean): Truth {
+    return a === null || b === null ? null : test(compareValues(a, b));
+}
+
+/**
+ * Orders two non-null values of the same type: numbers and bigints, strings, booleans, dates and arrays.
+ */
+function compareValues(a: unknown, b: unknown): number {
+    const isNumeric = (value: unknown) => typeof value === 'number' || typeof value === 'bigint';
+    if ((isNumeric(a) && isNumeric(b)) || (typeof a === 'string' && typeof b === 'string')) {
+        return (a as number) < (b as number) ? -1 : (a as number) > (b as number) ? 1 : 0;
+    }
+    if (typeof a === 'boolean' && typeof b === 'boolean') {
+        return Number(a) - Number(b);
+    }
+    if (a instanceof Date && b instanceof Date) {
+        return Math.sign(a.getTime() - b.getTime());
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            const order = compareValues(a[i], b[i]);
+            if (order !== 0) {
+                return order;
+            }
+        }
+        return Math.sign(a.length - b.length);
+    }
+    throw new ParserError(`Cannot compare ${describeType(a)} with ${describeType(b)}.`, undefined, 'TYPE_MISMATCH');
+}
+
+/**
+ * Applies an array operator to a record value and a list: UNKNOWN if the value is NULL.
+ * Record values that are not arrays cannot be compared, like values of mismatched types in comparisons.
+ */
+function compareArrays(a: unknown, list: unknown, compare: (values: unknown[], list: unknown[]) => boolean): Truth {
+    if (a === null) {
+        return null;
+    }
+    if (!Array.isArray(a)) {
+        throw new ParserError(`Cannot compare ${describeType(a)} with an array.`, undefined, 'TYPE_MISMATCH');
+    }
+    return compare(a, list as unknown[]);
+}
+
+/**
+ * `a IN (list)`: TRUE if some element equals `a`; otherwise UNKNOWN if `a` or an element is NULL. An empty list is FALSE.
+ */
+function isIn(a: unknown, list: unknown[]): Truth {
+    return or3(list.map(value => COMPARISONS.eq([a, value])));
+}
+
+/**
+ * Array containment compares elements with `=`, so NULL elements never match.
+ */
+function includesValue(array: unknown[], value: unknown): boolean {
+    return array.some(element => COMPARISONS.eq([element, value]) === true);
+}
+
+/**
+ * Matches a LIKE pattern: `%` is any sequence, `_` any single character, and `\` escapes the next character.
+ */
+function matchLike(value: unknown, pattern: unknown, caseInsensitive: boolean): Truth {
+    if (value === null || pattern === null) {
+        return null;
+    }
+    let source = '';
+    const text = String(pattern);
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]!;
+        if (char === '\\' && i + 1 < text.length) {
+            source += escapeRegExp(text[++i]!);
+        } else {
+            source += char === '%' ? '.*' : char === '_' ? '.' : escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's').test(String(value));
+}
+
+function escapeRegExp(char: string): string {
+    return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Converts a literal to the type of a record value, like value coercion does for a column's data type.
+ */
+function coerceToSample(value: LiteralValue, sample: unknown, column: string, node: ASTNode): unknown {
+    if (value === null) {
+        return value;
+    }
+    const fail = (expected: string): never => {
+        throw new CoercionError(`Cannot coerce value ${JSON.stringify(value)} to ${expected} for column '${column}'.`, node);
+    };
+
+    if (typeof sample === 'number') {
+        const numericValue = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        return typeof numericValue === 'number' && Number.isFinite(numericValue) ? numericValue : fail('number');
+    }
+    if (typeof sample === 'bigint') {
+        if ((typeof value === 'number' && Number.isInteger(value)) || (typeof value === 'string' && /^\s*-?\d+\s*$/.test(value))) {
+            return BigInt(typeof value === 'string' ? value.trim() : value);
+        }
+        return fail('bigint');
+    }
+    if (typeof sample === 'boolean') {
+        const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+        if (normalized === true || normalized === 1 || normalized === 'true' || normalized === '1') return true;
+        if (normalized === false || normalized === 0 || normalized === 'false' || normalized === '0') return false;
+        return fail('boolean');
+    }
+    if (sample instanceof Date) {
+        const dateValue = value instanceof Date ? value : typeof value === 'boolean' ? undefined : new Date(value);
+        return dateValue && !isNaN(dateValue.getTime()) ? dateValue : fail('date');
+    }
+    if (typeof sample === 'string') {
+        return value instanceof Date ? value.toISOString() : String(value);
+    }
+    return value;
+}
+
+function describeType(value: unknown): string {
+    return value instanceof Date ? 'a date' : Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+}
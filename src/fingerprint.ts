@@ -0,0 +1,76 @@
+import { createHash } from "crypto";
+import { Argument, Program } from "./ast";
+import { argumentToJSON } from "./json";
+import { Normalizer, NormalizerOptions } from "./normalizer";
+import { resolveColumnPath } from "./relations";
+
+/**
+ * Options controlling what a fingerprint captures.
+ */
+export interface FingerprintOptions extends NormalizerOptions {
+    /**
+     * Replace literal values with placeholders that only keep their kind (e.g., `eq(age, <number>)`), and arrays
+     * with a single placeholder regardless of their length, so that filters differing only in their values share
+     * a fingerprint. Quoted strings the generator reads as columns (see NormalizerOptions.columnMap) are kept.
+     * Defaults to false.
+     */
+    shape?: boolean;
+}
+
+/**
+ * Returns the canonical text a fingerprint is computed from: the JSON form of the normalized Program
+ * (see Normalizer), without source spans, and with placeholders instead of values in `shape` mode.
+ * Unlike the fingerprint it contains the filter's values (unless `shape` is set), so only log it in shape mode.
+ */
+export function canonicalFilterKey(program: Program, options: FingerprintOptions = {}): string {
+    const normalized = new Normalizer(options).normalize(program);
+    const expression = argumentToJSON(normalized.expression);
+    return JSON.stringify(options.shape ? toShape(expression, options) : expression);
+}
+
+/**
+ * Computes a deterministic fingerprint of a filter, e.g. as a cache key: the SHA-256 hex digest of its
+ * canonical text (see canonicalFilterKey). Filters that only differ in whitespace, syntax, the order of
+ * `and`/`or` conditions or redundant nesting share a fingerprint.
+ *
+ * ```ts
+ * fingerprintFilter(parse('and(gt(age, 30), eq(name, "Ann"))')) === fingerprintFilter(parse('name = "Ann" and age > 30'));
+ * fingerprintFilter(parse('gt(age, 30)'), { shape: true }) === fingerprintFilter(parse('gt(age, 18)'), { shape: true });
+ * ```
+ */
+export function fingerprintFilter(program: Program, options: FingerprintOptions = {}): string {
+    return createHash('sha256').update(canonicalFilterKey(program, options)).digest('hex');
+}
+
+/**
+ * A node of the canonical text in shape mode: literals are reduced to their kind.
+ */
+type ShapeNode = Argument | { kind: string };
+
+function toShape(node: Argument, options: FingerprintOptions): ShapeNode {
+    switch (node.kind) {
+        case 'CallExpression': {
+            const args = node.args.map(arg => toShape(arg, options));
+            // Conditions were sorted with their values; sort them again without.
+            if (node.functionName === 'and' || node.functionName === 'or') {
+                args.sort((a, b) => compareKeys(JSON.stringify(a), JSON.stringify(b)));
+            }
+            return { ...node, args: args as Argument[] };
+        }
+        case 'ColumnReference':
+        case 'Placeholder':
+            return node;
+        case 'ArrayLiteral':
+            return { kind: node.kind };
+        case 'StringLiteral': {
+            const column = !options.strict && options.columnMap ? resolveColumnPath(options.columnMap, node.value) : undefined;
+            return column ? node : { kind: node.kind };
+        }
+        default:
+            return { kind: node.kind };
+    }
+}
+
+function compareKeys(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
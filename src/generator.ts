@@ -1,16 +1,72 @@
-import { eq, and, or, like, ilike, gt, gte, lt, lte, isNull, isNotNull, not, inArray, between, notBetween } from "drizzle-orm";
-import { AnyColumn } from "drizzle-orm";
-import { Program, CallExpression, StringLiteral, DrizzleFilter, ASTNode, NumberLiteral } from "./ast";
-import { ParserError } from "./parser";
+import { AnyColumn, is, Placeholder as SQLPlaceholder, SQL, sql } from "drizzle-orm";
+import { AGGREGATE_FUNCTIONS, isAggregateCall, keepsColumnType, resolveAggregateOperand } from "./aggregates";
+import { Program, CallExpression, DrizzleFilter, ASTNode, ScalarLiteral, LiteralValue, ColumnReference, Argument, Placeholder } from "./ast";
+import { CoercedValue, coerceValue } from "./coercion";
+import { ParserError, spanOf } from "./diagnostics";
+import { createOperatorRegistry, OperatorRegistry, OperatorSignature, parameterKindAt } from "./operators";
+import { RelationMapping, ResolvedColumn, resolveColumnPath, wrapInRelations } from "./relations";
 
 /**
  * Defines the contract for column mapping, allowing string names to be resolved
  * to Drizzle's AnyColumn objects. This is crucial because the input string
  * uses string literals for column names, but Drizzle needs actual column objects.
+ * Entries may also be related tables (see `relation()`), whose columns are referred to by dotted paths.
  * 
- * Example: { "id": users.id, "name": users.name }
+ * Example: { "id": users.id, "name": users.name, "organization": relation(organizations, ...) }
  */
-export type ColumnMap = Record<string, AnyColumn>;
+export type ColumnMap = Record<string, AnyColumn | RelationMapping>;
+
+/**
+ * A value bound to a template placeholder: a scalar, a list (for array parameters such as the list of inArray),
+ * or a Drizzle placeholder (`sql.placeholder(...)`) that is filled in when a prepared statement is executed.
+ */
+export type FilterParamValue = LiteralValue | LiteralValue[] | SQLPlaceholder;
+
+/**
+ * Values for the placeholders of a filter template, keyed by name (without the leading '$').
+ */
+export type FilterParams = Record<string, FilterParamValue>;
+
+/**
+ * Options controlling how the FilterGenerator builds Drizzle expressions.
+ */
+export interface FilterGeneratorOptions {
+    /**
+     * Convert literal values to the data type of the column they are compared with
+     * (e.g., "30" becomes 30 for an integer column). Defaults to true.
+     */
+    coerceValues?: boolean;
+    /**
+     * Only column references (`name` or `col("name")`) refer to columns; quoted strings are always values,
+     * even when they match a ColumnMap key. Use this when filter strings contain user-supplied text.
+     * Defaults to false, where a string matching a ColumnMap key is treated as that column.
+     */
+    strict?: boolean;
+    /**
+     * The operators that may be used. Defaults to the built-in Drizzle operators (see createOperatorRegistry).
+     */
+    operators?: OperatorRegistry;
+    /**
+     * Values for the placeholders (e.g., `$tenant`) of the filter; see FilterTemplate. Values are coerced like literals
+     * and become query parameters. Drizzle placeholders are passed through unchanged.
+     */
+    params?: FilterParams;
+    /**
+     * Allow the aggregate functions `count`, `sum`, `avg`, `min` and `max` as operands (e.g., `gt(sum(amount), 1000)`),
+     * for HAVING clauses (see convertStringToDrizzleHaving). Defaults to false.
+     */
+    aggregates?: boolean;
+}
+
+/**
+ * A filter compiled for prepared statements (see FilterGenerator.compile).
+ */
+export interface CompiledFilter {
+    /** The filter, with a Drizzle placeholder (`sql.placeholder(name)`) for every value. */
+    where: DrizzleFilter;
+    /** The (coerced) value of each placeholder, keyed by name; pass them to `execute()` of the prepared query. */
+    values: Record<string, CoercedValue | CoercedValue[]>;
+}
 
 /**
  * The FilterGenerator class converts an AST (Abstract Syntax Tree) into
@@ -18,30 +74,18 @@ export type ColumnMap = Record<string, AnyColumn>;
  */
 export class FilterGenerator {
     private columnMap: ColumnMap;
-    private drizzleOperators: Record<string, Function>;
+    private options: FilterGeneratorOptions;
+    private operators: OperatorRegistry;
+    /** The values of the placeholders created so far, while compiling. */
+    private compiledValues: Record<string, CoercedValue | CoercedValue[]> | undefined;
+    /** The names of the Drizzle placeholders in `params`, which compiled placeholders must not reuse. */
+    private reservedNames = new Set<string>();
 
-    constructor(columnMap: ColumnMap) {
+    constructor(columnMap: ColumnMap, options: FilterGeneratorOptions = {}) {
         this.columnMap = columnMap;
-        // Map string function names from the input to actual Drizzle ORM functions.
-        // Ensure all supported operators from the grammar are included here.
-        this.drizzleOperators = {
-            eq,
-            and,
-            or,
-            like,
-            ilike,
-            gt,
-            gte,
-            lt,
-            lte,
-            isNull,
-            isNotNull,
-            not,
-            inArray,
-            between,
-            notBetween,
-            // Add other Drizzle operators as needed (e.g., inArray, between)
-        }
+        this.options = options;
+        // Maps function names from the input to Drizzle ORM functions (or custom builders).
+        this.operators = options.operators ?? createOperatorRegistry();
     }
 
     /**
@@ -54,13 +98,46 @@ export class FilterGenerator {
         if (!ast.expression) {
             return undefined; // Or throw an error if an empty expression is not allowed.
         }
-        return this.traverseNode(ast.expression)
+        return this.traverseNode(ast.expression) as DrizzleFilter
+    }
+
+    /**
+     * Generates the filter with a Drizzle placeholder (`sql.placeholder('p1')`, `'p2'`, ...) instead of every value,
+     * and returns the values separately. Filters of the same shape compile to the same SQL, so a query can be
+     * prepared once and executed with the values of each filter:
+     *
+     * ```ts
+     * const { where, values } = generator.compile(ast);
+     * const query = db.select().from(users).where(where).prepare('users_by_filter');
+     * await query.execute(values);
+     * ```
+     *
+     * Values are coerced as in `generate`. Lists (e.g., of inArray) get a placeholder per element, so their length is
+     * part of the shape; array values of array operators (e.g., arrayContains) get a single placeholder.
+     * Custom operators receive placeholders instead of values. Drizzle placeholders bound to template
+     * placeholders (see `params`) are kept, and do not appear in `values`; names they use (e.g., `'p1'`) are skipped.
+     *
+     * @param ast The root of the AST (Program node) to compile.
+     */
+    public compile(ast: Program): CompiledFilter {
+        this.compiledValues = {};
+        this.reservedNames = new Set(Object.values(this.options.params ?? {})
+            .filter((value): value is SQLPlaceholder => is(value, SQLPlaceholder))
+            .map(value => value.name));
+        try {
+            const where = this.generate(ast) as DrizzleFilter;
+            return { where, values: this.compiledValues };
+        } finally {
+            this.compiledValues = undefined;
+        }
     }
 
-    private traverseNode(node: CallExpression | StringLiteral | NumberLiteral): DrizzleFilter | string | number {
+    private traverseNode(node: Argument): DrizzleFilter | AnyColumn | CoercedValue | CoercedValue[] | SQLPlaceholder {
         switch (node.kind) {
             case 'CallExpression':
                 return this.handleCallExpression(node);
+            case 'ColumnReference':
+                return this.resolveColumn(node).column;
             case 'StringLiteral':
                 // A StringLiteral itself is not a Drizzle filter, but it's used as an argument.
                 // If this is called at the top-level, it's a malformed AST for a filter.
@@ -71,9 +148,20 @@ export class FilterGenerator {
             case 'NumberLiteral':
                 // A NumberLiteral is also an argument type, not a filter itself.
                 return node.value;
+            case 'BooleanLiteral':
+            case 'NullLiteral':
+                return node.value;
+            case 'DateLiteral':
+                // Drizzle expects real Date objects for timestamp/date columns.
+                return new Date(node.value);
+            case 'ArrayLiteral':
+                // An ArrayLiteral becomes a plain JS array of its element values (e.g., for inArray).
+                return node.elements.map(element => this.traverseNode(element) as LiteralValue);
+            case 'Placeholder':
+                return this.placeholderArgument(node, undefined);
             default:
                 // This should not happen if AST is well-formed
-                throw new ParserError(`Unknown AST node kind: ${(node as ASTNode).kind}`)
+                throw new ParserError(`Unknown AST node kind: ${(node as ASTNode).kind}`, undefined, 'UNKNOWN_NODE', spanOf(node))
         }
     }
 
@@ -81,36 +169,173 @@ export class FilterGenerator {
      * Handles CallExpression nodes, converting them into Drizzle ORM function calls.
      */
     private handleCallExpression(node: CallExpression): DrizzleFilter {
-        const drizzleFunction = this.drizzleOperators[node.functionName];
-        if (!drizzleFunction) {
-            throw new ParserError(`Unsupported Drizzle ORM function: '${node.functionName}'.`)
+        const operator = this.operators.get(node.functionName);
+        if (!operator) {
+            throw new ParserError(`Unsupported Drizzle ORM function: '${node.functionName}'.`, undefined, 'UNSUPPORTED_FUNCTION', spanOf(node))
         }
 
+        // Only operators taking a column resolve string arguments to columns; logical operators take filters.
+        const signature = operator.signature;
+        const takesColumn = signature.params.includes('column');
+
+        // The first argument naming a mapped column decides how the remaining literals are coerced.
+        // Patterns (e.g., for like) are text and are never coerced.
+        const targetColumn = takesColumn ? this.findTargetColumn(node) : undefined;
+        const coerceTo = this.options.coerceValues !== false && !signature.patternValues
+            ? targetColumn
+            : undefined;
+
+        // Columns of related tables are compared inside EXISTS subqueries over these relations.
+        const relations: RelationMapping[] = [];
+        const useColumn = (resolved: ResolvedColumn): AnyColumn => {
+            resolved.relations.forEach(relation => relations.includes(relation) || relations.push(relation));
+            return resolved.column;
+        };
+
         // Process arguments: column references or literal values
-        const processedArgs = node.args.map((arg) => {
-            if (arg.kind === 'StringLiteral') {
-                const isComparisonOperator = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'isNull', 'isNotNull', 'inArray', 'between', 'notBetween'].includes(node.functionName);
-
-                if (isComparisonOperator && this.columnMap[arg.value]) {
-                    return this.columnMap[arg.value];
-                } else {
-                    return arg.value
-                }
-            } else if (arg.kind === 'NumberLiteral') { // NEW: Handle NumberLiteral directly as its numeric value
-                return arg.value;
+        const processedArgs = node.args.map((arg, index) => {
+            const resolved = arg.kind === 'StringLiteral' && takesColumn ? this.lookupColumnName(arg.value) : undefined;
+            if (resolved) {
+                return useColumn(resolved);
+            } else if (arg.kind === 'ColumnReference') {
+                return useColumn(this.resolveColumn(arg));
             } else if (arg.kind === 'CallExpression') {
-                return this.traverseNode(arg)
+                return this.options.aggregates && isAggregateCall(arg) ? this.aggregateArgument(arg) : this.traverseNode(arg);
+            } else if (arg.kind === 'ArrayLiteral') {
+                return this.listParameter(arg.elements.map(element => this.literalArgument(element, coerceTo)), signature);
+            } else if (arg.kind === 'Placeholder') {
+                const value = this.placeholderArgument(arg, coerceTo);
+                if (Array.isArray(value)) {
+                    return this.listParameter(value, signature);
+                }
+                if (!is(value, SQLPlaceholder)) {
+                    return this.parameter(value as CoercedValue);
+                }
+                // Drizzle writes a placeholder as one parameter (e.g., `in $1`), which is only valid for array values.
+                if (parameterKindAt(signature, index) === 'array' && !signature.arrayValues) {
+                    throw new ParserError(
+                        `Placeholder '$${arg.name}' stands for the list of '${node.functionName}', which cannot be a Drizzle placeholder; bind the list instead.`,
+                        undefined,
+                        'INVALID_PARAMETER',
+                        spanOf(arg),
+                    );
+                }
+                return value;
             }
-            return undefined // Should not happen with current AST types
+            return this.parameter(this.literalArgument(arg, coerceTo));
         }).filter(val => val !== undefined) // remove any undefined results from mapping
 
+        let filter: DrizzleFilter;
         try {
-            return drizzleFunction(...processedArgs);
+            filter = operator.build(...processedArgs);
         } catch (e: any) {
             throw new ParserError(
-                `Error calling Drizzle function '${node.functionName}' with arguments [${processedArgs.map(a => typeof a === 'object' && a !== null && 'getSQL' in a ? a.getSQL() : JSON.stringify(a)).join(', ')}]. Original error: ${e.message}`,
-
+                `Error calling Drizzle function '${node.functionName}' with arguments [${processedArgs.map(a => typeof a === 'object' && a !== null && 'getSQL' in a ? a.getSQL() : typeof a === 'bigint' ? a.toString() : JSON.stringify(a)).join(', ')}]. Original error: ${e.message}`,
+                undefined,
+                'DRIZZLE_CALL_FAILED',
+                spanOf(node),
             )
         }
+        return filter && relations.length > 0 ? wrapInRelations(relations, filter) : filter;
+    }
+
+    /**
+     * Finds the column a comparison operates on: the first column reference, or (outside strict mode)
+     * string argument present in the column map. An aggregate operand gives its column for `min` and `max`,
+     * and no column otherwise.
+     */
+    private findTargetColumn(node: CallExpression): AnyColumn | undefined {
+        for (const arg of node.args) {
+            if (this.options.aggregates && isAggregateCall(arg)) {
+                return keepsColumnType(arg) ? this.aggregateColumn(arg) : undefined;
+            }
+            if (arg.kind === 'ColumnReference') {
+                return this.resolveColumn(arg).column;
+            }
+            const resolved = arg.kind === 'StringLiteral' ? this.lookupColumnName(arg.value) : undefined;
+            if (resolved) {
+                return resolved.column;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Resolves a string literal that names a column (or a dotted path to a related column).
+     * In strict mode, strings are always values.
+     */
+    private lookupColumnName(value: string): ResolvedColumn | undefined {
+        return this.options.strict ? undefined : resolveColumnPath(this.columnMap, value);
+    }
+
+    private resolveColumn(node: ColumnReference): ResolvedColumn {
+        const resolved = resolveColumnPath(this.columnMap, node.name);
+        if (!resolved) {
+            throw new ParserError(`Unknown column '${node.name}'.`, undefined, 'UNKNOWN_COLUMN', spanOf(node));
+        }
+        return resolved;
+    }
+
+    /**
+     * Builds an aggregate operand (e.g., `sum(amount)`) with Drizzle's aggregate functions.
+     */
+    private aggregateArgument(node: CallExpression): SQL {
+        return AGGREGATE_FUNCTIONS[node.functionName]!(this.aggregateColumn(node));
+    }
+
+    private aggregateColumn(node: CallExpression): AnyColumn | undefined {
+        const operand = resolveAggregateOperand(node, this.columnMap, this.options);
+        if ('problem' in operand) {
+            const { message, code, node: problemNode } = operand.problem;
+            throw new ParserError(message, undefined, code, spanOf(problemNode));
+        }
+        return operand.column;
+    }
+
+    /**
+     * Turns a literal argument into its JS value, coercing it to the target column's data type if one is given.
+     */
+    private literalArgument(node: ScalarLiteral, column: AnyColumn | undefined): CoercedValue {
+        const value = this.traverseNode(node) as LiteralValue;
+        return column ? coerceValue(value, column, node) : value;
+    }
+
+    /**
+     * While compiling, stores a value and returns the Drizzle placeholder standing for it; otherwise returns the value.
+     */
+    private parameter<T extends CoercedValue | CoercedValue[]>(value: T): T | SQLPlaceholder {
+        if (!this.compiledValues) {
+            return value;
+        }
+        let index = Object.keys(this.compiledValues).length + 1;
+        while (this.reservedNames.has(`p${index}`) || `p${index}` in this.compiledValues) {
+            index++;
+        }
+        const name = `p${index}`;
+        this.compiledValues[name] = value;
+        return sql.placeholder(name);
+    }
+
+    /**
+     * Parameterizes a list argument: as a whole for (non-empty) array values (see OperatorSignature.arrayValues),
+     * otherwise element by element.
+     */
+    private listParameter(values: CoercedValue[], signature: OperatorSignature): (CoercedValue | SQLPlaceholder)[] | SQLPlaceholder {
+        return signature.arrayValues && values.length > 0 ? this.parameter(values) : values.map(value => this.parameter(value));
+    }
+
+    /**
+     * Returns the value bound to a placeholder, coerced to the target column's data type like a literal.
+     */
+    private placeholderArgument(node: Placeholder, column: AnyColumn | undefined): CoercedValue | CoercedValue[] | SQLPlaceholder {
+        const value = this.options.params?.[node.name];
+        if (value === undefined) {
+            throw new ParserError(`No value is bound to placeholder '$${node.name}'.`, undefined, 'MISSING_PARAMETER', spanOf(node));
+        }
+        const coerce = (element: LiteralValue) => column ? coerceValue(element, column, node) : element;
+        if (Array.isArray(value)) {
+            return value.map(coerce);
+        }
+        return is(value, SQLPlaceholder) ? value : coerce(value as LiteralValue);
     }
-}
\ No newline at end of file
+}
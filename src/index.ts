@@ -1,19 +1,385 @@
-import {DrizzleFilter} from "./ast";
-import {ColumnMap, FilterGenerator} from "./generator";
+import {and, SQL} from "drizzle-orm";
+import {DrizzleFilter, Program} from "./ast";
+import {Diagnostic} from "./diagnostics";
+import {Evaluator, EvaluatorOptions, FilterRecord} from "./evaluator";
+import {ColumnMap, CompiledFilter, FilterGenerator, FilterGeneratorOptions, FilterParams, FilterParamValue} from "./generator";
+import {programFromJSON} from "./json";
 import {Lexer} from "./lexer";
-import {Parser} from "./parser";
+import {BuiltInOperatorName, OperatorRegistry} from "./operators";
+import {Normalizer} from "./normalizer";
+import {Parser, ParserOptions} from "./parser";
+import {FilterPolicy, PolicyEnforcer, PolicyViolationError} from "./policy";
+import {ListQuery, ListQueryOptions, QueryParamsInput, readCount, readFields, readQueryParam} from "./query-params";
+import {KeysetCursor, SortGenerator, SortGeneratorOptions, SortParser} from "./sort";
+import {FilterTemplate} from "./template";
+import {CheckedFilter, PlaceholderName} from "./typed-filter";
+import {Validator} from "./validator";
 
-export function convertStringToDrizzleFilter(
-    expressionString: string,
-    columnMap: ColumnMap
+/**
+ * Options accepted by convertStringToDrizzleFilter: the grammar to parse with and how to generate the filter.
+ */
+export interface ConvertOptions extends ParserOptions, FilterGeneratorOptions {
+    /**
+     * Run the Validator before generating and throw its first ValidationError.
+     * This rejects unknown columns instead of treating them as string values. Defaults to false.
+     */
+    validate?: boolean;
+    /**
+     * Restrictions for filter strings from untrusted users (allowed operators and columns, complexity limits).
+     * Violations throw a PolicyViolationError before anything is generated.
+     */
+    policy?: FilterPolicy;
+    /**
+     * Rewrite the filter into its canonical form with the Normalizer (after the policy check) before generating it,
+     * e.g. to flatten nested groups and fold `eq` disjunctions into `inArray`. Defaults to false.
+     */
+    normalize?: boolean;
+}
+
+/**
+ * Options accepted by convertQueryParams: the options for the filter (its policy also restricts the sort and fields)
+ * and the limits for `limit` and `offset`.
+ */
+export interface ConvertQueryParamsOptions extends ConvertOptions, ListQueryOptions {}
+
+/**
+ * Parser options with the policy's depth limit applied, so that deep input is rejected while parsing.
+ */
+function parserOptionsFor(options: ConvertOptions): ParserOptions {
+    const maxDepth = options.policy?.maxDepth;
+    return maxDepth === undefined ? options : {...options, maxDepth};
+}
+
+/**
+ * Converts a filter string into a Drizzle ORM filter.
+ *
+ * When `expressionString` is a string literal and `columnMap` is typed with its keys (e.g., built with
+ * columnMapFromTable), unknown columns and operators in prefix syntax are reported at compile time.
+ */
+export function convertStringToDrizzleFilter<
+    const S extends string,
+    TColumnMap extends ColumnMap,
+    TOperator extends string = BuiltInOperatorName,
+>(
+    expressionString: CheckedFilter<S, TColumnMap, TOperator>,
+    columnMap: TColumnMap,
+    options: ConvertOptions & {operators?: OperatorRegistry<TOperator>} = {}
 ): DrizzleFilter | string | number {
     const lexer = new Lexer(expressionString);
-    const parser = new Parser(lexer)
+    const parser = new Parser(lexer, parserOptionsFor(options))
     const ast = parser.parse()
+    return generateFilter(ast, columnMap, options);
+}
+
+/**
+ * Converts a filter on aggregates (e.g., `gt(sum(amount), 1000)` or `gte(count(), 5)`) into a Drizzle ORM expression
+ * for a HAVING clause: the aggregate functions `count`, `sum`, `avg`, `min` and `max` may be used as operands
+ * (see FilterGeneratorOptions.aggregates). Plain columns refer to the grouped columns.
+ *
+ * ```ts
+ * db.select({ customerId: orders.customerId, orders: count() }).from(orders)
+ *     .groupBy(orders.customerId)
+ *     .having(convertStringToDrizzleHaving('gt(count(), 10)', columnMap));
+ * ```
+ */
+export function convertStringToDrizzleHaving(
+    expressionString: string,
+    columnMap: ColumnMap,
+    options: Omit<ConvertOptions, 'aggregates'> = {}
+): DrizzleFilter {
+    const ast = new Parser(new Lexer(expressionString), parserOptionsFor(options)).parse();
+    return generateFilter(ast, columnMap, {...options, aggregates: true}) as DrizzleFilter;
+}
+
+/**
+ * Converts the JSON form of a filter (see FILTER_JSON_SCHEMA), e.g. a tree built by a frontend, into a Drizzle ORM filter.
+ * The JSON is checked with programFromJSON and then goes through the same policy, validation and generation steps
+ * as a filter string.
+ *
+ * @throws JSONFilterError if the JSON does not match FILTER_JSON_SCHEMA.
+ */
+export function convertJSONToDrizzleFilter(
+    json: unknown,
+    columnMap: ColumnMap,
+    options: Omit<ConvertOptions, 'syntax'> = {}
+): DrizzleFilter | string | number {
+    const ast = programFromJSON(json, parserOptionsFor(options));
+    return generateFilter(ast, columnMap, options);
+}
+
+/**
+ * Converts a Program into a Drizzle ORM filter, applying the same policy, validation and generation steps as
+ * convertStringToDrizzleFilter. Use it with the front-ends for other filter formats:
+ *
+ * ```ts
+ * convertProgramToDrizzleFilter(programFromOData("age gt 25 and name eq 'Bob'"), columnMap, { policy });
+ * ```
+ */
+export function convertProgramToDrizzleFilter(
+    program: Program,
+    columnMap: ColumnMap,
+    options: Omit<ConvertOptions, 'syntax'> = {}
+): DrizzleFilter | string | number {
+    return generateFilter(program, columnMap, options);
+}
+
+/**
+ * Converts a filter string into a Drizzle ORM filter for prepared statements: every value becomes a Drizzle placeholder
+ * and is returned in `values` (see FilterGenerator.compile). Filters that only differ in their values compile to the same SQL:
+ *
+ * ```ts
+ * const { where, values } = compileStringToDrizzleFilter('and(gt(age, 30), eq(status, "active"))', columnMap, { strict: true });
+ * await db.select().from(users).where(where).prepare('users_by_age_and_status').execute(values); // { p1: 30, p2: 'active' }
+ * ```
+ */
+export function compileStringToDrizzleFilter<
+    const S extends string,
+    TColumnMap extends ColumnMap,
+    TOperator extends string = BuiltInOperatorName,
+>(
+    expressionString: CheckedFilter<S, TColumnMap, TOperator>,
+    columnMap: TColumnMap,
+    options: ConvertOptions & {operators?: OperatorRegistry<TOperator>} = {}
+): CompiledFilter {
+    const parser = new Parser(new Lexer(expressionString), parserOptionsFor(options));
+    const ast = checkProgram(parser.parse(), columnMap, options);
+    return new FilterGenerator(columnMap, options).compile(ast);
+}
+
+/**
+ * Compiles a filter string with named placeholders (e.g., `$tenant`) into a FilterTemplate. The template is parsed,
+ * checked against the policy and validated (if requested) once; `bind` then generates the filter for each set of values:
+ *
+ * ```ts
+ * const template = compileFilterTemplate('and(eq(tenantId, $tenant), gte(createdAt, $since))', columnMap, { strict: true });
+ * db.select().from(users).where(template.bind({ tenant: 42, since: new Date('2024-01-01') }));
+ * ```
+ *
+ * When `template` is a string literal, the parameter names of `bind` are checked at compile time.
+ */
+export function compileFilterTemplate<
+    const S extends string,
+    TColumnMap extends ColumnMap,
+    TOperator extends string = BuiltInOperatorName,
+>(
+    template: CheckedFilter<S, TColumnMap, TOperator>,
+    columnMap: TColumnMap,
+    options: ConvertOptions & {operators?: OperatorRegistry<TOperator>} = {}
+): FilterTemplate<PlaceholderName<S>> {
+    const parser = new Parser(new Lexer(template), parserOptionsFor(options));
+    const ast = checkProgram(parser.parse(), columnMap, options);
+    return new FilterTemplate(ast, columnMap, options);
+}
+
+/**
+ * Converts a sort string (e.g., `desc(createdAt, nullsLast), asc(name)`, see SortParser) into Drizzle `orderBy` expressions:
+ *
+ * ```ts
+ * db.select().from(users).orderBy(...convertStringToDrizzleOrderBy('desc(createdAt), asc(id)', columnMap));
+ * ```
+ */
+export function convertStringToDrizzleOrderBy(sortString: string, columnMap: ColumnMap): SQL[] {
+    const sort = new SortParser(new Lexer(sortString)).parse();
+    return new SortGenerator(columnMap).generate(sort);
+}
+
+/**
+ * Builds the keyset-pagination filter for the page after `cursor`, the sort values of the last row of the current page
+ * (see SortGenerator.keyset). Combine it with the filter of the list:
+ *
+ * ```ts
+ * const sort = 'desc(createdAt), asc(id)';
+ * const after = createKeysetFilter(sort, { createdAt: last.createdAt, id: last.id }, columnMap);
+ * db.select().from(users).where(and(filter, after)).orderBy(...convertStringToDrizzleOrderBy(sort, columnMap)).limit(20);
+ * ```
+ */
+export function createKeysetFilter(
+    sortString: string,
+    cursor: KeysetCursor,
+    columnMap: ColumnMap,
+    options: SortGeneratorOptions = {}
+): DrizzleFilter {
+    const sort = new SortParser(new Lexer(sortString)).parse();
+    return new SortGenerator(columnMap, options).keyset(sort, cursor);
+}
+
+/**
+ * Converts the query parameters of a list endpoint into the parts of a Drizzle query, e.g. for
+ * `?filter=gt(age, 30)&sort=desc(createdAt),asc(id)&limit=20&offset=40&fields=id,name`:
+ *
+ * ```ts
+ * const query = convertQueryParams(new URL(request.url).searchParams, columnMap, { policy, strict: true, maxLimit: 100 });
+ * db.query.users.findMany(query);
+ * db.select(query.selection).from(users).where(query.where).orderBy(...query.orderBy ?? []).limit(query.limit ?? 100);
+ * ```
+ *
+ * - `filter` is converted like convertStringToDrizzleFilter (with the `policy`, `normalize` and `validate` options);
+ *   repeated filters are combined with `and`.
+ * - `sort` is a sort string (see convertStringToDrizzleOrderBy); repeated sorts are appended.
+ * - `limit` and `offset` are non-negative integers, checked against `maxLimit` and `maxOffset`.
+ * - `fields` is a comma-separated list of ColumnMap keys, returned both as `columns` (for `findMany`) and as `selection`
+ *   (for `db.select()`).
+ *
+ * The policy's column allowlist applies to `sort` and `fields` as well. Absent parameters are left out of the result.
+ *
+ * @throws QueryParameterError for invalid `limit`, `offset` and `fields` values, and the errors of the filter and sort
+ * conversions (e.g., ParserError, PolicyViolationError) for the `filter` and `sort` values.
+ */
+export function convertQueryParams(
+    params: QueryParamsInput,
+    columnMap: ColumnMap,
+    options: ConvertQueryParamsOptions = {}
+): ListQuery {
+    const query: ListQuery = {};
+    const enforcer = options.policy ? new PolicyEnforcer(options.policy, columnMap, options) : undefined;
+
+    const filters = readQueryParam(params, 'filter').map(filter => {
+        const ast = new Parser(new Lexer(filter), parserOptionsFor(options)).parse();
+        return generateFilter(ast, columnMap, options) as DrizzleFilter;
+    });
+    if (filters.length > 0) {
+        query.where = filters.length === 1 ? filters[0] : and(...filters);
+    }
+
+    const sorts = readQueryParam(params, 'sort').map(sortString => new SortParser(new Lexer(sortString)).parse());
+    if (sorts.length > 0) {
+        sorts.forEach(sort => enforcer?.enforceSort(sort));
+        const generator = new SortGenerator(columnMap);
+        query.orderBy = sorts.flatMap(sort => generator.generate(sort));
+    }
 
-    const generator = new FilterGenerator(columnMap);
-    const drizzleFilter = generator.generate(ast);
+    const { defaultLimit, maxLimit } = options;
+    const limit = readCount(params, 'limit', maxLimit) ?? (defaultLimit !== undefined && maxLimit !== undefined ? Math.min(defaultLimit, maxLimit) : defaultLimit);
+    if (limit !== undefined) {
+        query.limit = limit;
+    }
+    const offset = readCount(params, 'offset', options.maxOffset);
+    if (offset !== undefined) {
+        query.offset = offset;
+    }
+
+    const fields = readQueryParam(params, 'fields');
+    if (fields.length > 0) {
+        Object.assign(query, readFields(fields, columnMap, enforcer));
+    }
+    return query;
+}
+
+/**
+ * Parses a filter string once and returns a predicate that applies it to plain JS objects (see Evaluator),
+ * e.g. `cachedRows.filter(createFilterPredicate('gt(age, 30)'))`.
+ */
+export function createFilterPredicate(
+    expressionString: string,
+    options: ParserOptions & EvaluatorOptions = {}
+): (record: FilterRecord) => boolean {
+    const ast = new Parser(new Lexer(expressionString), options).parse();
+    const evaluator = new Evaluator(options);
+    return record => evaluator.evaluate(ast, record);
+}
+
+/**
+ * Enforces the policy, normalizes and validates (if requested) and generates the filter for a parsed Program.
+ */
+function generateFilter(program: Program, columnMap: ColumnMap, options: ConvertOptions): DrizzleFilter | string | number {
+    const generator = new FilterGenerator(columnMap, options);
+    const drizzleFilter = generator.generate(checkProgram(program, columnMap, options));
     return drizzleFilter;
 }
 
-export type {ColumnMap, DrizzleFilter}
\ No newline at end of file
+/**
+ * Enforces the policy, then normalizes and validates the Program if requested.
+ * A normalized Program must satisfy the policy as well.
+ *
+ * @returns The Program to generate: the normalized one if `normalize` is set.
+ */
+function checkProgram(program: Program, columnMap: ColumnMap, options: ConvertOptions): Program {
+    const enforcer = options.policy ? new PolicyEnforcer(options.policy, columnMap, options) : undefined;
+    enforcer?.enforce(program);
+
+    const ast = options.normalize ? new Normalizer({...options, columnMap}).normalize(program) : program;
+    // Folding eq conditions into inArray lists can exceed the policy's limits, so the normalized Program is checked too.
+    if (ast !== program) {
+        enforcer?.enforce(ast);
+    }
+
+    if (options.validate) {
+        const [firstError] = new Validator(columnMap, options).validate(ast);
+        if (firstError) {
+            throw firstError;
+        }
+    }
+    return ast;
+}
+
+/**
+ * Checks a filter string without generating it: reports every syntax error (using the recovering parser)
+ * and every validation error (unknown columns, wrong argument counts, type mismatches) at once.
+ * If a policy is given, its first violation is reported as well.
+ *
+ * @returns All diagnostics in the order they were found. An empty array means the filter is valid.
+ */
+export function validateFilterString(
+    expressionString: string,
+    columnMap: ColumnMap,
+    options: Omit<ConvertOptions, 'validate'> = {}
+): Diagnostic[] {
+    const parser = new Parser(new Lexer(expressionString), parserOptionsFor(options));
+    const {program, diagnostics} = parser.parseWithRecovery();
+    if (!program) {
+        return diagnostics;
+    }
+
+    if (options.policy) {
+        try {
+            new PolicyEnforcer(options.policy, columnMap, options).enforce(program);
+        } catch (e) {
+            if (!(e instanceof PolicyViolationError)) {
+                throw e;
+            }
+            diagnostics.push(e.toDiagnostic(expressionString));
+        }
+    }
+
+    const validationErrors = new Validator(columnMap, options).validate(program);
+    return [...diagnostics, ...validationErrors.map(error => error.toDiagnostic(expressionString))];
+}
+
+export {Lexer} from "./lexer";
+export {Parser} from "./parser";
+export {Printer} from "./printer";
+export {FILTER_JSON_SCHEMA, JSONFilterError, programFromJSON, programToJSON} from "./json";
+export {programFromMongo} from "./mongo";
+export {programFromOData} from "./odata";
+export {programFromRSQL} from "./rsql";
+export {Evaluator} from "./evaluator";
+export {Normalizer} from "./normalizer";
+export {canonicalFilterKey, fingerprintFilter} from "./fingerprint";
+export {FilterTemplate, TemplateParameterError} from "./template";
+export {AGGREGATE_FUNCTIONS} from "./aggregates";
+export {SortGenerator, SortParser} from "./sort";
+export {QueryParameterError} from "./query-params";
+export {ParserError, createDiagnostic, formatExcerpt} from "./diagnostics";
+export {CoercionError} from "./coercion";
+export {Validator, ValidationError} from "./validator";
+export {OPERATOR_SIGNATURES, OperatorRegistry, createOperatorRegistry} from "./operators";
+export {PolicyEnforcer, PolicyViolationError} from "./policy";
+export {relation, RelationMapping, resolveColumnPath} from "./relations";
+export {columnMapFromTable, columnMapsFromSchema, normalizeName} from "./column-map";
+export type {Diagnostic, DiagnosticCode, SourceSpan} from "./diagnostics";
+export type {ParseResult} from "./parser";
+export type {PrinterOptions} from "./printer";
+export type {EvaluatorOptions, FilterRecord, Truth} from "./evaluator";
+export type {NormalizerOptions} from "./normalizer";
+export type {FingerprintOptions} from "./fingerprint";
+export type {FilterTemplateOptions, TemplateParams} from "./template";
+export type {KeysetCursor, SortGeneratorOptions} from "./sort";
+export type {ListQuery, ListQueryOptions, ListQueryParameter, QueryParamsInput} from "./query-params";
+export type {SortKey, SortProgram} from "./ast";
+export type {OperatorArgument, OperatorBuilder, OperatorDefinition, OperatorSignature, ParameterKind} from "./operators";
+export type {FilterPolicy, PolicyViolationCode} from "./policy";
+export type {ResolvedColumn} from "./relations";
+export type {CheckedFilter, ColumnPath, PlaceholderName} from "./typed-filter";
+export type {BuiltInOperatorName} from "./operators";
+export type {CamelCase, ColumnKey, ColumnMapOptions, ColumnName, NameCase, SchemaColumnMaps, SnakeCase, TableColumnMap} from "./column-map";
+export type {ColumnMap, CompiledFilter, DrizzleFilter, FilterGeneratorOptions, FilterParams, FilterParamValue, ParserOptions}
@@ -0,0 +1,306 @@
+import { Argument, ArrayLiteral, CallExpression, Program, ScalarLiteral } from "./ast";
+import { ParserError } from "./diagnostics";
+import { ParserOptions } from "./parser";
+import { PolicyViolationError } from "./policy";
+import { IDENTIFIER, PLACEHOLDER_NAME } from "./printer";
+
+/**
+ * JSON Schema (draft 2020-12) of the JSON form of a filter: the AST node shapes without source spans.
+ * The root is either a Program or a single CallExpression.
+ *
+ * Example:
+ * ```json
+ * { "kind": "CallExpression", "functionName": "eq", "args": [
+ *     { "kind": "ColumnReference", "name": "name" },
+ *     { "kind": "StringLiteral", "value": "Ann" }
+ * ] }
+ * ```
+ */
+export const FILTER_JSON_SCHEMA = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'Filter',
+    oneOf: [{ $ref: '#/$defs/Program' }, { $ref: '#/$defs/CallExpression' }],
+    $defs: {
+        Program: {
+            type: 'object',
+            properties: { kind: { const: 'Program' }, expression: { $ref: '#/$defs/CallExpression' } },
+            required: ['kind', 'expression'],
+            additionalProperties: false,
+        },
+        CallExpression: {
+            type: 'object',
+            properties: {
+                kind: { const: 'CallExpression' },
+                functionName: { type: 'string', pattern: IDENTIFIER.source },
+                args: { type: 'array', items: { $ref: '#/$defs/Argument' } },
+            },
+            required: ['kind', 'functionName', 'args'],
+            additionalProperties: false,
+        },
+        Argument: {
+            oneOf: [
+                { $ref: '#/$defs/ScalarLiteral' },
+                { $ref: '#/$defs/ColumnReference' },
+                { $ref: '#/$defs/ArrayLiteral' },
+                { $ref: '#/$defs/Placeholder' },
+                { $ref: '#/$defs/CallExpression' },
+            ],
+        },
+        ColumnReference: {
+            type: 'object',
+            properties: { kind: { const: 'ColumnReference' }, name: { type: 'string' } },
+            required: ['kind', 'name'],
+            additionalProperties: false,
+        },
+        ArrayLiteral: {
+            type: 'object',
+            properties: { kind: { const: 'ArrayLiteral' }, elements: { type: 'array', items: { $ref: '#/$defs/ScalarLiteral' } } },
+            required: ['kind', 'elements'],
+            additionalProperties: false,
+        },
+        Placeholder: {
+            type: 'object',
+            properties: { kind: { const: 'Placeholder' }, name: { type: 'string', pattern: PLACEHOLDER_NAME.source } },
+            required: ['kind', 'name'],
+            additionalProperties: false,
+        },
+        ScalarLiteral: {
+            oneOf: [
+                { $ref: '#/$defs/StringLiteral' },
+                { $ref: '#/$defs/NumberLiteral' },
+                { $ref: '#/$defs/BooleanLiteral' },
+                { $ref: '#/$defs/NullLiteral' },
+                { $ref: '#/$defs/DateLiteral' },
+            ],
+        },
+        StringLiteral: literalSchema('StringLiteral', { type: 'string' }),
+        NumberLiteral: literalSchema('NumberLiteral', { type: 'number' }),
+        BooleanLiteral: literalSchema('BooleanLiteral', { type: 'boolean' }),
+        NullLiteral: literalSchema('NullLiteral', { type: 'null' }),
+        DateLiteral: literalSchema('DateLiteral', { type: 'string', description: 'Any date string accepted by Date.parse, e.g. "2024-01-01".' }),
+    },
+} as const;
+
+function literalSchema<TKind extends string, TValue extends object>(kind: TKind, value: TValue) {
+    return {
+        type: 'object',
+        properties: { kind: { const: kind }, value },
+        required: ['kind', 'value'],
+        additionalProperties: false,
+    } as const;
+}
+
+/**
+ * Thrown by programFromJSON when the input does not match FILTER_JSON_SCHEMA, and by programFromMongo for invalid queries.
+ * `path` is a JSON Pointer to the offending value (e.g., `/expression/args/1`); it is empty for the root.
+ */
+export class JSONFilterError extends ParserError {
+    constructor(message: string, public path: string) {
+        super(`Invalid filter JSON at ${path || 'the root'}: ${message}`, undefined, 'INVALID_JSON');
+        this.name = 'JSONFilterError';
+    }
+}
+
+/**
+ * Turns untrusted JSON (as returned by `JSON.parse`) into a Program, checking it against FILTER_JSON_SCHEMA.
+ * The result is a fresh tree: unknown properties are rejected rather than copied.
+ *
+ * @param json The JSON form of a Program or of a single CallExpression.
+ * @param options `maxDepth` limits the nesting of function calls, as for the Parser.
+ * @throws JSONFilterError for the first mismatch, or PolicyViolationError if calls are nested deeper than `maxDepth`.
+ */
+export function programFromJSON(json: unknown, options: Pick<ParserOptions, 'maxDepth'> = {}): Program {
+    return new JSONReader(options).readRoot(json);
+}
+
+/**
+ * Returns the JSON form of a Program: the same tree without source spans.
+ * `JSON.stringify` it to send a filter to a client; programFromJSON reads it back.
+ */
+export function programToJSON(program: Program): Program {
+    return { kind: 'Program', expression: callToJSON(program.expression) };
+}
+
+function callToJSON(node: CallExpression): CallExpression {
+    return { kind: 'CallExpression', functionName: node.functionName, args: node.args.map(argumentToJSON) };
+}
+
+/**
+ * Returns the JSON form of any argument node: the same subtree without source spans.
+ */
+export function argumentToJSON(node: Argument): Argument {
+    switch (node.kind) {
+        case 'CallExpression':
+            return callToJSON(node);
+        case 'ColumnReference':
+            return { kind: 'ColumnReference', name: node.name };
+        case 'ArrayLiteral':
+            return { kind: 'ArrayLiteral', elements: node.elements.map(element => argumentToJSON(element) as ScalarLiteral) };
+        case 'Placeholder':
+            return { kind: 'Placeholder', name: node.name };
+        default:
+            return { kind: node.kind, value: node.value } as ScalarLiteral;
+    }
+}
+
+/**
+ * A JSON object with a string `kind`, whose other properties are not checked yet.
+ */
+type JSONNode = Record<string, unknown> & { kind: string };
+
+const SCALAR_KINDS = ['StringLiteral', 'NumberLiteral', 'BooleanLiteral', 'NullLiteral', 'DateLiteral'];
+
+/**
+ * Reads and checks one JSON tree. Each node is checked for its exact set of properties before its children are read.
+ */
+class JSONReader {
+    private maxDepth: number | undefined;
+    private depth = 0; // The current nesting depth of function calls
+
+    constructor(options: Pick<ParserOptions, 'maxDepth'>) {
+        this.maxDepth = options.maxDepth;
+    }
+
+    public readRoot(json: unknown): Program {
+        const node = this.readObject(json, '', ['Program', 'CallExpression']);
+        if (node.kind === 'Program') {
+            this.checkProperties(node, '', ['expression']);
+            return { kind: 'Program', expression: this.readCall(node['expression'], '/expression') };
+        }
+        return { kind: 'Program', expression: this.readCall(json, '') };
+    }
+
+    private readCall(json: unknown, path: string): CallExpression {
+        const node = this.readObject(json, path, ['CallExpression']);
+        this.checkProperties(node, path, ['functionName', 'args']);
+
+        const functionName = node['functionName'];
+        if (typeof functionName !== 'string' || !IDENTIFIER.test(functionName)) {
+            throw new JSONFilterError(`'functionName' must be an identifier string.`, `${path}/functionName`);
+        }
+        const args = this.readArray(node['args'], `${path}/args`);
+
+        if (this.maxDepth !== undefined && this.depth >= this.maxDepth) {
+            throw new PolicyViolationError(`Filter exceeds the maximum nesting depth of ${this.maxDepth}.`, 'MAX_DEPTH_EXCEEDED');
+        }
+        this.depth++;
+        try {
+            return { kind: 'CallExpression', functionName, args: args.map((arg, i) => this.readArgument(arg, `${path}/args/${i}`)) };
+        } finally {
+            this.depth--;
+        }
+    }
+
+    private readArgument(json: unknown, path: string): Argument {
+        const node = this.readObject(json, path, ['CallExpression', 'ColumnReference', 'ArrayLiteral', 'Placeholder', ...SCALAR_KINDS]);
+        switch (node.kind) {
+            case 'CallExpression':
+                return this.readCall(json, path);
+            case 'ColumnReference': {
+                this.checkProperties(node, path, ['name']);
+                const name = node['name'];
+                if (typeof name !== 'string') {
+                    throw new JSONFilterError(`'name' must be a string.`, `${path}/name`);
+                }
+                return { kind: 'ColumnReference', name };
+            }
+            case 'ArrayLiteral':
+                return this.readArrayLiteral(node, path);
+            case 'Placeholder': {
+                this.checkProperties(node, path, ['name']);
+                const name = node['name'];
+                if (typeof name !== 'string' || !PLACEHOLDER_NAME.test(name)) {
+                    throw new JSONFilterError(`'name' must be a placeholder name (letters, digits and underscores).`, `${path}/name`);
+                }
+                return { kind: 'Placeholder', name };
+            }
+            default:
+                return this.readScalar(node, path);
+        }
+    }
+
+    private readArrayLiteral(node: JSONNode, path: string): ArrayLiteral {
+        this.checkProperties(node, path, ['elements']);
+        const elements = this.readArray(node['elements'], `${path}/elements`).map((element, i) => {
+            const elementPath = `${path}/elements/${i}`;
+            return this.readScalar(this.readObject(element, elementPath, SCALAR_KINDS), elementPath);
+        });
+        return { kind: 'ArrayLiteral', elements };
+    }
+
+    private readScalar(node: JSONNode, path: string): ScalarLiteral {
+        this.checkProperties(node, path, ['value']);
+        const value = node['value'];
+        const valuePath = `${path}/value`;
+        switch (node.kind) {
+            case 'StringLiteral':
+                if (typeof value !== 'string') {
+                    throw new JSONFilterError(`'value' must be a string.`, valuePath);
+                }
+                return { kind: 'StringLiteral', value };
+            case 'NumberLiteral':
+                if (typeof value !== 'number' || !Number.isFinite(value)) {
+                    throw new JSONFilterError(`'value' must be a finite number.`, valuePath);
+                }
+                return { kind: 'NumberLiteral', value };
+            case 'BooleanLiteral':
+                if (typeof value !== 'boolean') {
+                    throw new JSONFilterError(`'value' must be a boolean.`, valuePath);
+                }
+                return { kind: 'BooleanLiteral', value };
+            case 'NullLiteral':
+                if (value !== null) {
+                    throw new JSONFilterError(`'value' must be null.`, valuePath);
+                }
+                return { kind: 'NullLiteral', value };
+            default:
+                if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+                    throw new JSONFilterError(`'value' must be a date string.`, valuePath);
+                }
+                return { kind: 'DateLiteral', value };
+        }
+    }
+
+    /**
+     * Checks that the value is a node object of one of the given kinds.
+     */
+    private readObject(json: unknown, path: string, kinds: readonly string[]): JSONNode {
+        if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+            throw new JSONFilterError(`expected an object.`, path);
+        }
+        const kind = (json as Record<string, unknown>)['kind'];
+        if (typeof kind !== 'string' || !kinds.includes(kind)) {
+            throw new JSONFilterError(`'kind' must be one of ${kinds.map(k => `'${k}'`).join(', ')}.`, `${path}/kind`);
+        }
+        return json as JSONNode;
+    }
+
+    private readArray(json: unknown, path: string): unknown[] {
+        if (!Array.isArray(json)) {
+            throw new JSONFilterError(`expected an array.`, path);
+        }
+        return json;
+    }
+
+    /**
+     * Checks that a node has exactly `kind` and the given properties.
+     */
+    private checkProperties(node: Record<string, unknown>, path: string, properties: string[]): void {
+        for (const property of properties) {
+            if (!Object.hasOwn(node, property)) {
+                throw new JSONFilterError(`missing property '${property}'.`, path);
+            }
+        }
+        const unknown = Object.keys(node).find(key => key !== 'kind' && !properties.includes(key));
+        if (unknown !== undefined) {
+            throw new JSONFilterError(`unknown property '${unknown}'.`, `${path}/${pointerSegment(unknown)}`);
+        }
+    }
+}
+
+/**
+ * Escapes a property name as a JSON Pointer segment.
+ */
+export function pointerSegment(key: string): string {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -1,10 +1,16 @@
+import { ParserError } from "./diagnostics";
+
 export enum TokenType {
     Identifier = 'IDENTIFIER', // e.g., "and", "or", "eq", "like"
     StringLiteral = 'STRING_LITERAL', // e.g., '"foo"', '"bar"'
     NumberLiteral = 'NUMBER_LITERAL', // e.g., '123', '3.14'
     LParen = 'LPAREN', // '('
     RParen = 'RPAREN', // ')'
+    LBracket = 'LBRACKET', // '['
+    RBracket = 'RBRACKET', // ']'
     Comma = 'COMMA', // ','
+    Operator = 'OPERATOR', // Infix comparison operators: '=', '!=', '<>', '<', '<=', '>', '>='
+    Placeholder = 'PLACEHOLDER', // e.g., '$tenant' (the value is the name without '$')
     Whitespace = 'WHITESPACE', // Space, tab, newline (ignored by parser)
     EOF = 'EOF', // End of file
     Unknown = 'UNKNOWN', // For unrecognized characters
@@ -17,6 +23,7 @@ export interface Token {
     type: TokenType;
     value: string;
     position: number; // Starting position of the token in the original string
+    end: number; // Position just past the token's last character (including quotes)
 }
 
 /**
@@ -39,6 +46,23 @@ export class Lexer {
         this.currentPosition = 0
     }
 
+    /**
+     * Returns the input string being tokenized.
+     */
+    public getInput(): string {
+        return this.input;
+    }
+
+    /**
+     * Returns the next token without consuming it.
+     */
+    public peekToken(): Token {
+        const savedPosition = this.currentPosition;
+        const token = this.nextToken();
+        this.currentPosition = savedPosition;
+        return token;
+    }
+
     public nextToken(): Token {
         this.skipWhitespace();
         if (this.currentPosition >= this.input.length) {
@@ -51,14 +75,26 @@ export class Lexer {
                 return this.advanceAndCreateToken(TokenType.LParen, char)
             case ')':
                 return this.advanceAndCreateToken(TokenType.RParen, char)
+            case '[':
+                return this.advanceAndCreateToken(TokenType.LBracket, char)
+            case ']':
+                return this.advanceAndCreateToken(TokenType.RBracket, char)
             case ',':
                 return this.advanceAndCreateToken(TokenType.Comma, char)
             case '"':
                 return this.readStringLiteral();
+            case '$':
+                return this.readPlaceholder();
+            case '=':
+                return this.advanceAndCreateToken(TokenType.Operator, char)
+            case '!':
+            case '<':
+            case '>':
+                return this.readOperator();
             default:
-                if (this.isLetter(char)) {
+                if (this.isIdentifierStart(char)) {
                     return this.readIdentifier();
-                } else if (this.isDigit(char)) { // Check for numbers
+                } else if (this.isDigit(char) || (char === '-' && this.isDigit(this.input[this.currentPosition + 1] ?? ''))) { // Check for numbers
                     return this.readNumberLiteral();
                 }
                 // Handle other unknown characters or numbers if needed later
@@ -68,17 +104,21 @@ export class Lexer {
 
     /**
      * Reads a string literal (e.g., "value") including the quotes.
+     * Backslash escape sequences are kept as written (e.g., the LIKE escape `\%`); a doubled quote stands for one `"`.
      */
     private readStringLiteral(): Token {
         const startPos = this.currentPosition;
         this.currentPosition++; // Consume the opening quote
         let value = '';
-        while (
-            this.currentPosition < this.input.length &&
-            this.input[this.currentPosition] !== '"'
-        ) {
-            // Basic escape sequence handling if neede (e.g., '\"')
-            if (this.input[this.currentPosition] === '\\' && this.currentPosition + 1 < this.input.length) {
+        while (this.currentPosition < this.input.length) {
+            if (this.input[this.currentPosition] === '"') {
+                if (this.input[this.currentPosition + 1] !== '"') {
+                    break;
+                }
+                value += '"';
+                this.currentPosition++; // Consume the first quote of the pair
+            } else if (this.input[this.currentPosition] === '\\' && this.currentPosition + 1 < this.input.length) {
+                // Basic escape sequence handling if neede (e.g., '\"')
                 value += this.input[this.currentPosition]; // Add backslash
                 this.currentPosition++;
                 value += this.input[this.currentPosition]; // Add escaped char
@@ -90,7 +130,12 @@ export class Lexer {
 
         if (this.currentPosition >= this.input.length) {
             // Unclosed string literal
-            throw new Error(`Unclosed string literal starting at position ${startPos}`)
+            throw new ParserError(
+                `Unclosed string literal starting at position ${startPos}`,
+                undefined,
+                'UNCLOSED_STRING',
+                { start: startPos, end: this.input.length },
+            )
         }
 
         this.currentPosition++; // Consume the closing quote
@@ -98,26 +143,66 @@ export class Lexer {
     }
 
     /**
-     * Reads an identifier (e.g., "and", "eq").
+     * Reads a template placeholder (e.g., `$tenant`). A '$' not followed by a name yields an Unknown token.
+     */
+    private readPlaceholder(): Token {
+        const startPos = this.currentPosition;
+        this.currentPosition++; // Consume the '$'
+        if (!this.isIdentifierStart(this.input[this.currentPosition] ?? '')) {
+            return this.createToken(TokenType.Unknown, '$', startPos);
+        }
+        while (this.currentPosition < this.input.length && this.isIdentifierPart(this.input[this.currentPosition]!)) {
+            this.currentPosition++;
+        }
+        return this.createToken(TokenType.Placeholder, this.input.substring(startPos + 1, this.currentPosition), startPos);
+    }
+
+    /**
+     * Reads an infix comparison operator starting with '!', '<' or '>'.
+     * A lone '!' is not an operator and yields an Unknown token.
+     */
+    private readOperator(): Token {
+        const startPos = this.currentPosition;
+        const twoChars = this.input.substring(startPos, startPos + 2);
+        if (twoChars === '!=' || twoChars === '<=' || twoChars === '>=' || twoChars === '<>') {
+            this.currentPosition += 2;
+            return this.createToken(TokenType.Operator, twoChars, startPos);
+        }
+        const char = this.input[startPos]!;
+        return this.advanceAndCreateToken(char === '!' ? TokenType.Unknown : TokenType.Operator, char);
+    }
+
+    /**
+     * Reads an identifier (e.g., "and", "eq", "created_at").
+     * Dotted paths such as "organization.name" are read as a single identifier.
      */
     private readIdentifier(): Token {
         const startPos = this.currentPosition;
         while (
             this.currentPosition < this.input.length &&
-            this.isLetter(this.input[this.currentPosition]!)
+            this.isIdentifierPart(this.input[this.currentPosition]!)
         ) {
             this.currentPosition++;
+            // A dot continues the identifier only when another segment follows it.
+            const next = this.input[this.currentPosition + 1];
+            if (this.input[this.currentPosition] === '.' && next !== undefined && this.isIdentifierStart(next)) {
+                this.currentPosition++;
+            }
         }
         const value = this.input.substring(startPos, this.currentPosition);
         return this.createToken(TokenType.Identifier, value, startPos)
     }
 
     /**
-     * Reads a number literal (e.g., 123, 3.14).
+     * Reads a number literal (e.g., 123, 3.14, -5 or 1e-7).
      */
     private readNumberLiteral(): Token {
         const startPos = this.currentPosition;
         let value = '';
+        if (this.input[this.currentPosition] === '-') {
+            value += '-';
+            this.currentPosition++;
+        }
         while (
             this.currentPosition < this.input.length &&
             (this.isDigit(this.input[this.currentPosition]!) ||
@@ -126,6 +211,12 @@ export class Lexer {
             value += this.input[this.currentPosition];
             this.currentPosition++;
         }
+        // An exponent is only read when digits follow it, so that e.g. `1e` is not swallowed.
+        const exponent = /^[eE][+-]?\d+/.exec(this.input.substring(this.currentPosition));
+        if (exponent) {
+            value += exponent[0];
+            this.currentPosition += exponent[0].length;
+        }
         return this.createToken(TokenType.NumberLiteral, value, startPos);
     }
 
@@ -148,6 +239,20 @@ export class Lexer {
         return (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z');
     }
 
+    /**
+     * Checks if a character can start an identifier (a letter or an underscore).
+     */
+    private isIdentifierStart(char: string): boolean {
+        return this.isLetter(char) || char === '_';
+    }
+
+    /**
+     * Checks if a character can continue an identifier (a letter, a digit or an underscore).
+     */
+    private isIdentifierPart(char: string): boolean {
+        return this.isIdentifierStart(char) || this.isDigit(char);
+    }
+
     /**
      * Checks if a character is a digit.
      */
@@ -166,15 +271,15 @@ export class Lexer {
      * Creates a token and advances the current position.
      */
     private advanceAndCreateToken(type: TokenType, value: string): Token {
-        const token = this.createToken(type, value, this.currentPosition);
+        const position = this.currentPosition;
         this.currentPosition++; // Move past the current character
-        return token;
+        return this.createToken(type, value, position);
     }
 
     /**
-     * Helper to create a token object.
+     * Helper to create a token object ending at the current position.
      */
     private createToken(type: TokenType, value: string, position: number): Token {
-        return { type, value, position };
+        return { type, value, position, end: this.currentPosition };
     }
 }
\ No newline at end of file
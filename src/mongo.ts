@@ -0,0 +1,213 @@
+import { Argument, ArrayLiteral, CallExpression, ColumnReference, Program, ScalarLiteral } from "./ast";
+import { JSONFilterError, pointerSegment } from "./json";
+import { ParserOptions } from "./parser";
+import { PolicyViolationError } from "./policy";
+
+/**
+ * Maps Mongo comparison operators to the operator they produce.
+ * `$eq: null` and `$ne: null` become isNull / isNotNull instead, as in Mongo.
+ */
+const COMPARISON_OPERATORS: Record<string, string> = {
+    $eq: 'eq',
+    $ne: 'ne',
+    $gt: 'gt',
+    $gte: 'gte',
+    $lt: 'lt',
+    $lte: 'lte',
+};
+
+/**
+ * Maps Mongo operators taking a list to the operator they produce.
+ */
+const LIST_OPERATORS: Record<string, string> = {
+    $in: 'inArray',
+    $nin: 'notInArray',
+    $all: 'arrayContains',
+};
+
+/**
+ * Translates a Mongo-style query (e.g., `{ age: { $gt: 25 }, status: { $in: ['a', 'b'] } }`) into a Program.
+ *
+ * Supported are field equality, `$eq`, `$ne`, `$gt`, `$gte`, `$lt`, `$lte`, `$in`, `$nin`, `$all`, `$exists` and
+ * `$not` on fields, and `$and`, `$or` and `$nor` on queries. Dates are written as JS Date objects or as `{ $date: "..." }`.
+ * Field names become column references, so dotted names address related tables.
+ *
+ * @param query The query object, e.g. as returned by `JSON.parse`.
+ * @param options `maxDepth` limits the nesting of `$and`, `$or`, `$nor` and `$not`, as for the Parser.
+ * @throws JSONFilterError for anything that is not a supported query, with a JSON Pointer to it.
+ */
+export function programFromMongo(query: unknown, options: Pick<ParserOptions, 'maxDepth'> = {}): Program {
+    return { kind: 'Program', expression: new MongoReader(options).readQuery(query, '') };
+}
+
+/**
+ * Reads one Mongo-style query.
+ */
+class MongoReader {
+    private maxDepth: number | undefined;
+    private depth = 0; // The current nesting depth of logical operators
+
+    constructor(options: Pick<ParserOptions, 'maxDepth'>) {
+        this.maxDepth = options.maxDepth;
+    }
+
+    /**
+     * Reads a query object; its conditions are combined with `and`.
+     */
+    public readQuery(json: unknown, path: string): CallExpression {
+        const query = this.readObject(json, path);
+        const conditions = Object.entries(query).map(([key, value]) => {
+            const keyPath = `${path}/${pointerSegment(key)}`;
+            switch (key) {
+                case '$and':
+                case '$or':
+                    return call(key.substring(1), this.nested(keyPath, () => this.readQueries(value, keyPath)));
+                case '$nor':
+                    return call('not', [call('or', this.nested(keyPath, () => this.readQueries(value, keyPath)))]);
+                default:
+                    if (key.startsWith('$')) {
+                        throw new JSONFilterError(`unsupported query operator '${key}'.`, keyPath);
+                    }
+                    return this.readCondition({ kind: 'ColumnReference', name: key }, value, keyPath);
+            }
+        });
+
+        if (conditions.length === 0) {
+            throw new JSONFilterError(`expected at least one condition.`, path);
+        }
+        return conditions.length === 1 ? conditions[0]! : call('and', conditions);
+    }
+
+    private readQueries(json: unknown, path: string): CallExpression[] {
+        if (!Array.isArray(json) || json.length === 0) {
+            throw new JSONFilterError(`expected a non-empty array of queries.`, path);
+        }
+        return json.map((query, i) => this.readQuery(query, `${path}/${i}`));
+    }
+
+    /**
+     * Reads the condition on a field: a value to compare with, or an object of operators.
+     */
+    private readCondition(field: ColumnReference, json: unknown, path: string): CallExpression {
+        if (!isOperatorObject(json)) {
+            const value = this.readValue(json, path);
+            return value.kind === 'NullLiteral' ? call('isNull', [field]) : call('eq', [field, value]);
+        }
+
+        const conditions = Object.entries(json).map(([operator, operand]) =>
+            this.readOperator(field, operator, operand, `${path}/${pointerSegment(operator)}`));
+        return conditions.length === 1 ? conditions[0]! : call('and', conditions);
+    }
+
+    private readOperator(field: ColumnReference, operator: string, operand: unknown, path: string): CallExpression {
+        const comparison = COMPARISON_OPERATORS[operator];
+        if (comparison) {
+            const value = this.readValue(operand, path);
+            if (value.kind === 'NullLiteral' && (operator === '$eq' || operator === '$ne')) {
+                return call(operator === '$eq' ? 'isNull' : 'isNotNull', [field]);
+            }
+            return call(comparison, [field, value]);
+        }
+
+        const list = LIST_OPERATORS[operator];
+        if (list) {
+            if (!Array.isArray(operand)) {
+                throw new JSONFilterError(`'${operator}' expects an array.`, path);
+            }
+            const elements: ArrayLiteral = { kind: 'ArrayLiteral', elements: operand.map((value, i) => this.readValue(value, `${path}/${i}`)) };
+            return call(list, [field, elements]);
+        }
+
+        switch (operator) {
+            case '$exists':
+                if (typeof operand !== 'boolean') {
+                    throw new JSONFilterError(`'$exists' expects a boolean.`, path);
+                }
+                return call(operand ? 'isNotNull' : 'isNull', [field]);
+            case '$not':
+                if (!isOperatorObject(operand)) {
+                    throw new JSONFilterError(`'$not' expects an object of operators.`, path);
+                }
+                return call('not', [this.nested(path, () => this.readCondition(field, operand, path))]);
+            default:
+                throw new JSONFilterError(`unsupported operator '${operator}'.`, path);
+        }
+    }
+
+    /**
+     * Reads a value: a string, a finite number, a boolean, null, a Date or `{ $date: "..." }`.
+     */
+    private readValue(json: unknown, path: string): ScalarLiteral {
+        if (typeof json === 'string') {
+            return { kind: 'StringLiteral', value: json };
+        }
+        if (typeof json === 'number' && Number.isFinite(json)) {
+            return { kind: 'NumberLiteral', value: json };
+        }
+        if (typeof json === 'boolean') {
+            return { kind: 'BooleanLiteral', value: json };
+        }
+        if (json === null) {
+            return { kind: 'NullLiteral', value: null };
+        }
+        if (json instanceof Date && !isNaN(json.getTime())) {
+            return { kind: 'DateLiteral', value: json.toISOString() };
+        }
+        if (isDateObject(json)) {
+            const date = new Date(json.$date);
+            if (!isNaN(date.getTime())) {
+                return { kind: 'DateLiteral', value: typeof json.$date === 'string' ? json.$date : date.toISOString() };
+            }
+        }
+        throw new JSONFilterError(`expected a string, number, boolean, null or date value.`, path);
+    }
+
+    private readObject(json: unknown, path: string): Record<string, unknown> {
+        if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+            throw new JSONFilterError(`expected a query object.`, path);
+        }
+        return json as Record<string, unknown>;
+    }
+
+    /**
+     * Runs a read step one nesting level deeper, enforcing `maxDepth`.
+     */
+    private nested<T>(path: string, readStep: () => T): T {
+        if (this.maxDepth !== undefined && this.depth >= this.maxDepth) {
+            throw new PolicyViolationError(`Filter exceeds the maximum nesting depth of ${this.maxDepth} at ${path}.`, 'MAX_DEPTH_EXCEEDED');
+        }
+        this.depth++;
+        try {
+            return readStep();
+        } finally {
+            this.depth--;
+        }
+    }
+}
+
+function call(functionName: string, args: Argument[]): CallExpression {
+    return { kind: 'CallExpression', functionName, args };
+}
+
+/**
+ * Whether a field's condition is an object of operators (e.g., `{ $gt: 1 }`) rather than a value.
+ */
+function isOperatorObject(json: unknown): json is Record<string, unknown> {
+    if (typeof json !== 'object' || json === null || Array.isArray(json) || json instanceof Date || isDateObject(json)) {
+        return false;
+    }
+    const keys = Object.keys(json);
+    return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
+
+/**
+ * Whether the value is a date in Extended JSON form, `{ $date: "2024-01-01" }` or `{ $date: <milliseconds> }`.
+ */
+function isDateObject(json: unknown): json is { $date: string | number } {
+    if (typeof json !== 'object' || json === null) {
+        return false;
+    }
+    const keys = Object.keys(json);
+    const date = (json as Record<string, unknown>)['$date'];
+    return keys.length === 1 && (typeof date === 'string' || typeof date === 'number');
+}
@@ -0,0 +1,188 @@
+import { Argument, CallExpression, Program, ScalarLiteral } from "./ast";
+import { ColumnMap, FilterGeneratorOptions } from "./generator";
+import { argumentToJSON } from "./json";
+import { isBuiltInOperator } from "./operators";
+import { resolveColumnPath } from "./relations";
+
+/**
+ * Options controlling how the Normalizer reads quoted strings and which operators it may introduce.
+ * `operators` is the registry the filter is generated with: `eq` conditions are only folded into `inArray`
+ * when it holds the built-in `eq` and `inArray`. The built-in operators are assumed if it is omitted.
+ */
+export interface NormalizerOptions extends Pick<FilterGeneratorOptions, 'strict' | 'operators'> {
+    /**
+     * The column map the filter is generated with. Outside strict mode, a quoted string naming one of its columns
+     * is read as a column, so such values are never folded into inArray lists.
+     * Without a column map (and outside strict mode), no quoted string value is folded.
+     */
+    columnMap?: ColumnMap;
+}
+
+/**
+ * The Normalizer rewrites a Program into a canonical form with the same meaning:
+ * - nested `and`/`or` calls are flattened, and groups with a single condition are unwrapped;
+ * - `not` is pushed through `and`/`or` (De Morgan) so that it only wraps comparisons, and double negations are removed;
+ * - identical conditions are removed, and the remaining ones are sorted;
+ * - `eq` comparisons of the same column inside an `or` are folded into a single `inArray` (with any `inArray` of that column).
+ *
+ * Filters written differently but meaning the same thing normalize to the same AST, so printing the result
+ * gives a stable cache key. Empty groups (e.g., `and()`) are dropped like the undefined filter Drizzle returns for them.
+ * Calls the Normalizer does not understand (e.g., custom operators, or `not` with the wrong number of arguments)
+ * are kept as they are. The input is not modified; unchanged comparisons keep their source spans.
+ */
+export class Normalizer {
+    private options: NormalizerOptions;
+
+    constructor(options: NormalizerOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Normalizes a Program.
+     *
+     * @param ast The root of the AST (Program node).
+     * @returns A new Program; a filter without conditions becomes `and()`.
+     */
+    public normalize(ast: Program): Program {
+        const expression = this.normalizeCall(ast.expression, false);
+        return { kind: 'Program', expression: expression ?? { kind: 'CallExpression', functionName: 'and', args: [] } };
+    }
+
+    /**
+     * Normalizes a call, negated if `negate` is set; undefined means "no condition".
+     */
+    private normalizeCall(node: CallExpression, negate: boolean): CallExpression | undefined {
+        const operands = node.args.filter((arg): arg is CallExpression => arg.kind === 'CallExpression');
+        const logical = operands.length === node.args.length && (
+            node.functionName === 'and' || node.functionName === 'or' || (node.functionName === 'not' && operands.length === 1)
+        );
+        if (!logical) {
+            return negate ? { kind: 'CallExpression', functionName: 'not', args: [node] } : node;
+        }
+
+        if (node.functionName === 'not') {
+            return this.normalizeCall(operands[0]!, !negate);
+        }
+
+        // De Morgan: not(and(a, b)) is or(not(a), not(b)).
+        const functionName = (node.functionName === 'and') !== negate ? 'and' : 'or';
+        const conditions = operands
+            .map(operand => this.normalizeCall(operand, negate))
+            .filter((condition): condition is CallExpression => condition !== undefined)
+            .flatMap(condition => condition.functionName === functionName && isLogicalGroup(condition) ? condition.args as CallExpression[] : [condition]);
+
+        const folded = functionName === 'or' && this.canFold() ? this.foldEqualities(conditions) : conditions;
+        const unique = sortUnique(folded);
+        if (unique.length <= 1) {
+            return unique[0];
+        }
+        return { kind: 'CallExpression', functionName, args: unique };
+    }
+
+    /**
+     * Folds `eq(column, value)` and `inArray(column, [...])` conditions of the same column into one `inArray`.
+     * Conditions that cannot be folded are kept in place.
+     */
+    private foldEqualities(conditions: CallExpression[]): CallExpression[] {
+        const groups = new Map<string, { first: CallExpression; values: ScalarLiteral[]; count: number }>();
+        const result: (CallExpression | string)[] = [];
+
+        for (const condition of conditions) {
+            const values = this.foldableValues(condition);
+            if (!values) {
+                result.push(condition);
+                continue;
+            }
+
+            const key = nodeKey(condition.args[0]!);
+            const group = groups.get(key);
+            if (group) {
+                group.values.push(...values);
+                group.count++;
+            } else {
+                groups.set(key, { first: condition, values: [...values], count: 1 });
+                result.push(key);
+            }
+        }
+
+        return result.map(entry => {
+            if (typeof entry !== 'string') {
+                return entry;
+            }
+            const { first, values, count } = groups.get(entry)!;
+            if (count === 1) {
+                return first;
+            }
+
+            const column = first.args[0]!;
+            const elements = sortUnique(values);
+            return elements.length === 1
+                ? { kind: 'CallExpression', functionName: 'eq', args: [column, elements[0]!] }
+                : { kind: 'CallExpression', functionName: 'inArray', args: [column, { kind: 'ArrayLiteral', elements }] };
+        });
+    }
+
+    /**
+     * Whether `eq` and `inArray` mean what the folding assumes: the built-in operators, which the registry may have
+     * replaced or removed.
+     */
+    private canFold(): boolean {
+        const { operators } = this.options;
+        return !operators || (isBuiltInOperator(operators, 'eq') && isBuiltInOperator(operators, 'inArray'));
+    }
+
+    /**
+     * Returns the values compared with the column of an `eq(column, value)` or `inArray(column, [...])` condition,
+     * or undefined if the condition cannot be folded.
+     */
+    private foldableValues(condition: CallExpression): ScalarLiteral[] | undefined {
+        const [column, value, ...rest] = condition.args;
+        if (!column || !value || rest.length > 0 || (column.kind !== 'ColumnReference' && column.kind !== 'StringLiteral')) {
+            return undefined;
+        }
+
+        const values = condition.functionName === 'eq' && isScalarLiteral(value)
+            ? [value]
+            : condition.functionName === 'inArray' && value.kind === 'ArrayLiteral' ? value.elements : undefined;
+        return values && !values.some(element => this.mayBeColumn(element)) ? values : undefined;
+    }
+
+    /**
+     * Whether the generator may read a literal as a column: outside strict mode, a quoted string naming a column.
+     */
+    private mayBeColumn(node: ScalarLiteral): boolean {
+        if (node.kind !== 'StringLiteral' || this.options.strict) {
+            return false;
+        }
+        return !this.options.columnMap || resolveColumnPath(this.options.columnMap, node.value) !== undefined;
+    }
+}
+
+function isLogicalGroup(node: CallExpression): boolean {
+    return (node.functionName === 'and' || node.functionName === 'or') && node.args.every(arg => arg.kind === 'CallExpression');
+}
+
+function isScalarLiteral(node: Argument): node is ScalarLiteral {
+    return node.kind !== 'CallExpression' && node.kind !== 'ColumnReference' && node.kind !== 'ArrayLiteral' && node.kind !== 'Placeholder';
+}
+
+/**
+ * A key identifying a subtree regardless of its source spans.
+ */
+function nodeKey(node: Argument): string {
+    return JSON.stringify(argumentToJSON(node));
+}
+
+/**
+ * Removes nodes identical to an earlier one and sorts the rest by their keys.
+ */
+function sortUnique<T extends Argument>(nodes: T[]): T[] {
+    const byKey = new Map<string, T>();
+    nodes.forEach(node => {
+        const key = nodeKey(node);
+        if (!byKey.has(key)) {
+            byKey.set(key, node);
+        }
+    });
+    return [...byKey.keys()].sort().map(key => byKey.get(key)!);
+}
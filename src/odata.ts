@@ -0,0 +1,333 @@
+import { Argument, ArrayLiteral, ASTNode, CallExpression, ColumnReference, Program, ScalarLiteral } from "./ast";
+import { ParserError } from "./diagnostics";
+import { escapeLikePattern } from "./operators";
+import { ParserOptions } from "./parser";
+import { PolicyViolationError } from "./policy";
+
+/**
+ * Maps OData comparison operators to the operator they produce.
+ * `eq null` and `ne null` become isNull / isNotNull instead.
+ */
+const COMPARISON_OPERATORS: Record<string, string> = {
+    eq: 'eq',
+    ne: 'ne',
+    gt: 'gt',
+    ge: 'gte',
+    lt: 'lt',
+    le: 'lte',
+};
+
+/**
+ * Maps the supported OData string functions to the like pattern they match.
+ */
+const PATTERN_FUNCTIONS: Record<string, (value: string) => string> = {
+    contains: value => `%${escapeLikePattern(value)}%`,
+    startswith: value => `${escapeLikePattern(value)}%`,
+    endswith: value => `%${escapeLikePattern(value)}`,
+};
+
+type ODataTokenType = 'identifier' | 'string' | 'number' | 'date' | '(' | ')' | ',' | 'eof';
+
+interface ODataToken {
+    type: ODataTokenType;
+    value: string;
+    position: number;
+    end: number;
+}
+
+/**
+ * Token patterns, tried in order at the current position. Dates come before numbers, since both start with digits.
+ */
+const TOKEN_PATTERNS: [ODataTokenType, RegExp][] = [
+    ['date', /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?/],
+    ['number', /^-?\d+(\.\d+)?([eE][+-]?\d+)?/],
+    ['identifier', /^[A-Za-z_][A-Za-z0-9_]*(\/[A-Za-z_][A-Za-z0-9_]*)*/],
+];
+
+/**
+ * Translates an OData `$filter` expression (e.g., `age gt 25 and name eq 'Bob'`) into a Program.
+ *
+ * Supported are `eq`, `ne`, `gt`, `ge`, `lt`, `le`, `in (...)`, `and`, `or`, `not`, parentheses and the
+ * `contains`, `startswith` and `endswith` functions (translated to like). Property paths such as
+ * `organization/name` become dotted column references, so they address related tables.
+ *
+ * @param filter The value of the `$filter` query option.
+ * @param options `maxDepth` limits the nesting of parentheses and `not`, as for the Parser.
+ * @throws ParserError for syntax errors and unsupported operators or functions, with the span of the offending token.
+ */
+export function programFromOData(filter: string, options: Pick<ParserOptions, 'maxDepth'> = {}): Program {
+    return new ODataParser(filter, options).parse();
+}
+
+/**
+ * A recursive-descent parser for OData `$filter` expressions. Nodes get the spans of the input they came from.
+ */
+class ODataParser {
+    private input: string;
+    private maxDepth: number | undefined;
+    private position = 0; // The position after the lookahead
+    private lookahead: ODataToken;
+    private previousToken: ODataToken | null = null;
+    private depth = 0; // The current nesting depth of parentheses and `not`
+
+    constructor(input: string, options: Pick<ParserOptions, 'maxDepth'>) {
+        this.input = input;
+        this.maxDepth = options.maxDepth;
+        this.lookahead = this.nextToken();
+    }
+
+    public parse(): Program {
+        const expression = this.parseOr();
+        if (!this.match('eof')) {
+            throw this.error(`Unexpected '${this.lookahead.value}' at position ${this.lookahead.position}. Expected end of input.`);
+        }
+        return this.withSpan({ kind: 'Program', expression }, expression.start!);
+    }
+
+    private parseOr(): CallExpression {
+        return this.parseLogical('or', () => this.parseAnd());
+    }
+
+    private parseAnd(): CallExpression {
+        return this.parseLogical('and', () => this.parseNot());
+    }
+
+    /**
+     * Parses operands separated by the given keyword; a single operand is returned as is.
+     */
+    private parseLogical(keyword: 'and' | 'or', parseOperand: () => CallExpression): CallExpression {
+        const operands = [parseOperand()];
+        while (this.matchKeyword(keyword)) {
+            this.advance();
+            operands.push(parseOperand());
+        }
+        return operands.length === 1 ? operands[0]! : this.withSpan(call(keyword, operands), operands[0]!.start!);
+    }
+
+    private parseNot(): CallExpression {
+        if (this.matchKeyword('not')) {
+            const notToken = this.advance();
+            const operand = this.nested(notToken, () => this.parseNot());
+            return this.withSpan(call('not', [operand]), notToken.position);
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): CallExpression {
+        if (this.match('(')) {
+            const openToken = this.advance();
+            const expression = this.nested(openToken, () => this.parseOr());
+            this.expect(')', `Expected ')' to close the group started at position ${openToken.position}.`);
+            return expression;
+        }
+
+        const operand = this.expect('identifier', `Unexpected '${this.lookahead.value || 'end of input'}' at position ${this.lookahead.position}. Expected a property, a function call or '('.`);
+        if (this.match('(')) {
+            return this.parseFunction(operand);
+        }
+        return this.parseComparison(this.columnReference(operand));
+    }
+
+    /**
+     * Parses a boolean string function such as `contains(name, 'bo')`.
+     */
+    private parseFunction(nameToken: ODataToken): CallExpression {
+        const pattern = PATTERN_FUNCTIONS[nameToken.value.toLowerCase()];
+        if (!pattern) {
+            throw this.error(`Unsupported OData function '${nameToken.value}'.`, nameToken);
+        }
+        this.advance(); // '('
+        const column = this.columnReference(this.expect('identifier', `Expected a property as the first argument of '${nameToken.value}'.`));
+        this.expect(',', `Expected ',' after the property of '${nameToken.value}'.`);
+        const valueToken = this.expect('string', `Expected a string as the second argument of '${nameToken.value}'.`);
+        this.expect(')', `Expected ')' to close '${nameToken.value}'.`);
+
+        const value: ScalarLiteral = { kind: 'StringLiteral', value: pattern(valueToken.value), start: valueToken.position, end: valueToken.end };
+        return this.withSpan(call('like', [column, value]), nameToken.position);
+    }
+
+    /**
+     * Parses the operator and right-hand side of a comparison, e.g. `gt 25` or `in ('a', 'b')`.
+     */
+    private parseComparison(column: ColumnReference): CallExpression {
+        const operatorToken = this.expect('identifier', `Expected a comparison operator after '${column.name}'.`);
+        const operator = operatorToken.value.toLowerCase();
+
+        if (operator === 'in') {
+            const openToken = this.expect('(', `Expected '(' after 'in'.`);
+            const elements = [this.parseLiteral()];
+            while (this.match(',')) {
+                this.advance();
+                elements.push(this.parseLiteral());
+            }
+            this.expect(')', `Expected ')' to close the list started at position ${openToken.position}.`);
+            const list = this.withSpan<ArrayLiteral>({ kind: 'ArrayLiteral', elements }, openToken.position);
+            return this.withSpan(call('inArray', [column, list]), column.start!);
+        }
+
+        const functionName = COMPARISON_OPERATORS[operator];
+        if (!functionName) {
+            throw this.error(`Unsupported OData operator '${operatorToken.value}'.`, operatorToken);
+        }
+
+        const value = this.parseValue();
+        if (value.kind === 'NullLiteral' && (operator === 'eq' || operator === 'ne')) {
+            return this.withSpan(call(operator === 'eq' ? 'isNull' : 'isNotNull', [column]), column.start!);
+        }
+        return this.withSpan(call(functionName, [column, value]), column.start!);
+    }
+
+    /**
+     * Parses the right-hand side of a comparison: a literal or another property.
+     */
+    private parseValue(): ScalarLiteral | ColumnReference {
+        if (this.match('identifier') && !['true', 'false', 'null'].includes(this.lookahead.value)) {
+            return this.columnReference(this.advance());
+        }
+        return this.parseLiteral();
+    }
+
+    private parseLiteral(): ScalarLiteral {
+        const token = this.advance();
+        const span = { start: token.position, end: token.end };
+        switch (token.type) {
+            case 'string':
+                return { kind: 'StringLiteral', value: token.value, ...span };
+            case 'number': {
+                const value = Number(token.value);
+                if (!Number.isFinite(value)) {
+                    throw new ParserError(`Number literal out of range: '${token.value}'`, undefined, 'INVALID_NUMBER', span);
+                }
+                return { kind: 'NumberLiteral', value, ...span };
+            }
+            case 'date':
+                if (isNaN(Date.parse(token.value))) {
+                    throw new ParserError(`Invalid date literal: '${token.value}'`, undefined, 'INVALID_DATE', span);
+                }
+                return { kind: 'DateLiteral', value: token.value, ...span };
+            case 'identifier':
+                if (token.value === 'true' || token.value === 'false') {
+                    return { kind: 'BooleanLiteral', value: token.value === 'true', ...span };
+                }
+                if (token.value === 'null') {
+                    return { kind: 'NullLiteral', value: null, ...span };
+                }
+        }
+        throw this.error(`Unexpected '${token.value || 'end of input'}' at position ${token.position}. Expected a literal value.`, token);
+    }
+
+    /**
+     * Turns a property path (`organization/name`) into a column reference (`organization.name`).
+     */
+    private columnReference(token: ODataToken): ColumnReference {
+        return { kind: 'ColumnReference', name: token.value.replace(/\//g, '.'), start: token.position, end: token.end };
+    }
+
+    /**
+     * Runs a parse step one nesting level deeper, enforcing `maxDepth`.
+     */
+    private nested<T>(token: ODataToken, parseStep: () => T): T {
+        if (this.maxDepth !== undefined && this.depth >= this.maxDepth) {
+            const error = new PolicyViolationError(`Filter exceeds the maximum nesting depth of ${this.maxDepth}.`, 'MAX_DEPTH_EXCEEDED');
+            error.span = { start: token.position, end: token.end };
+            throw error;
+        }
+        this.depth++;
+        try {
+            return parseStep();
+        } finally {
+            this.depth--;
+        }
+    }
+
+    private match(type: ODataTokenType): boolean {
+        return this.lookahead.type === type;
+    }
+
+    private matchKeyword(keyword: string): boolean {
+        return this.match('identifier') && this.lookahead.value.toLowerCase() === keyword;
+    }
+
+    private expect(type: ODataTokenType, errorMessage: string): ODataToken {
+        if (!this.match(type)) {
+            throw this.error(errorMessage);
+        }
+        return this.advance();
+    }
+
+    /**
+     * Consumes the lookahead and returns it.
+     */
+    private advance(): ODataToken {
+        const token = this.lookahead;
+        this.previousToken = token;
+        this.lookahead = this.nextToken();
+        return token;
+    }
+
+    private withSpan<T extends ASTNode>(node: T, start: number): T {
+        node.start = start;
+        node.end = this.previousToken!.end;
+        return node;
+    }
+
+    private error(message: string, token: ODataToken = this.lookahead): ParserError {
+        return new ParserError(message, undefined, 'UNEXPECTED_TOKEN', { start: token.position, end: token.end });
+    }
+
+    private nextToken(): ODataToken {
+        while (this.position < this.input.length && /\s/.test(this.input[this.position]!)) {
+            this.position++;
+        }
+        const start = this.position;
+        const token = (type: ODataTokenType, value: string, length: number): ODataToken => {
+            this.position += length;
+            return { type, value, position: start, end: this.position };
+        };
+
+        const char = this.input[start];
+        if (char === undefined) {
+            return token('eof', '', 0);
+        }
+        if (char === '(' || char === ')' || char === ',') {
+            return token(char, char, 1);
+        }
+        if (char === "'") {
+            return this.readString();
+        }
+
+        const rest = this.input.substring(start);
+        for (const [type, pattern] of TOKEN_PATTERNS) {
+            const match = pattern.exec(rest);
+            if (match) {
+                return token(type, match[0], match[0].length);
+            }
+        }
+        throw this.error(`Unexpected character '${char}' at position ${start}.`, { type: 'eof', value: char, position: start, end: start + 1 });
+    }
+
+    /**
+     * Reads a single-quoted string; a quote inside it is written twice (`'O''Brien'`).
+     */
+    private readString(): ODataToken {
+        const start = this.position;
+        let value = '';
+        let i = start + 1;
+        while (i < this.input.length) {
+            if (this.input[i] === "'") {
+                if (this.input[i + 1] !== "'") {
+                    this.position = i + 1;
+                    return { type: 'string', value, position: start, end: this.position };
+                }
+                i++; // An escaped quote
+            }
+            value += this.input[i];
+            i++;
+        }
+        throw new ParserError(`Unclosed string literal starting at position ${start}`, undefined, 'UNCLOSED_STRING', { start, end: this.input.length });
+    }
+}
+
+function call(functionName: string, args: Argument[]): CallExpression {
+    return { kind: 'CallExpression', functionName, args };
+}
@@ -0,0 +1,252 @@
+import { and, AnyColumn, arrayContained, arrayContains, arrayOverlaps, between, eq, gt, gte, ilike, inArray, isNotNull, isNull, like, lt, lte, ne, not, notBetween, notIlike, notInArray, notLike, or, Placeholder as SQLPlaceholder, SQL } from "drizzle-orm";
+import { DrizzleFilter } from "./ast";
+import { CoercedValue } from "./coercion";
+
+/**
+ * The kind of argument an operator expects at a given position.
+ * - `column`: a column name from the ColumnMap
+ * - `value`: a scalar literal (or another column, for column-to-column comparisons)
+ * - `array`: an array literal
+ * - `filter`: a nested filter expression (a CallExpression)
+ */
+export type ParameterKind = 'column' | 'value' | 'array' | 'filter';
+
+/**
+ * Describes the arguments an operator accepts.
+ */
+export interface OperatorSignature {
+    /** The fixed leading parameters. */
+    params: ParameterKind[];
+    /** The kind of any further (variadic) arguments, if the operator accepts them. */
+    rest?: ParameterKind;
+    /** The minimum number of variadic arguments. Defaults to 0. */
+    minRest?: number;
+    /** Column data types (Drizzle `dataType`) the operator can be applied to. Any type if omitted. */
+    columnDataTypes?: string[];
+    /** Whether `value` arguments are text patterns (e.g., for like) rather than values of the column's type. */
+    patternValues?: boolean;
+    /**
+     * Whether `array` arguments are array values compared with an array column as a whole (e.g., for arrayContains)
+     * rather than lists of values (e.g., for inArray). Compiled filters (see FilterGenerator.compile) pass them as a
+     * single parameter instead of one per element.
+     */
+    arrayValues?: boolean;
+}
+
+const comparison: OperatorSignature = { params: ['column', 'value'] };
+const pattern: OperatorSignature = { params: ['column', 'value'], columnDataTypes: ['string'], patternValues: true };
+const nullCheck: OperatorSignature = { params: ['column'] };
+const membership: OperatorSignature = { params: ['column', 'array'] };
+const range: OperatorSignature = { params: ['column', 'value', 'value'] };
+const arrayComparison: OperatorSignature = { params: ['column', 'array'], columnDataTypes: ['array'], arrayValues: true };
+const logical: OperatorSignature = { params: [], rest: 'filter', minRest: 1 };
+
+/**
+ * Signatures of the built-in operators, keyed by function name.
+ */
+export const OPERATOR_SIGNATURES = {
+    and: logical,
+    or: logical,
+    not: { params: ['filter'] },
+    eq: comparison,
+    ne: comparison,
+    gt: comparison,
+    gte: comparison,
+    lt: comparison,
+    lte: comparison,
+    like: pattern,
+    ilike: pattern,
+    notLike: pattern,
+    notIlike: pattern,
+    isNull: nullCheck,
+    isNotNull: nullCheck,
+    inArray: membership,
+    notInArray: membership,
+    between: range,
+    notBetween: range,
+    arrayContains: arrayComparison,
+    arrayContained: arrayComparison,
+    arrayOverlaps: arrayComparison,
+} satisfies Record<string, OperatorSignature>;
+
+/**
+ * The names of the built-in operators.
+ */
+export type BuiltInOperatorName = keyof typeof OPERATOR_SIGNATURES;
+
+/**
+ * Returns the kind of the parameter at the given argument index, or undefined if the operator takes no argument there.
+ */
+export function parameterKindAt(signature: OperatorSignature, index: number): ParameterKind | undefined {
+    return signature.params[index] ?? signature.rest;
+}
+
+/**
+ * Describes the accepted argument count, e.g. "2 arguments" or "at least 1 argument".
+ */
+export function describeArity(signature: OperatorSignature): string {
+    const min = signature.params.length + (signature.rest ? signature.minRest ?? 0 : 0);
+    const noun = min === 1 ? 'argument' : 'arguments';
+    return signature.rest ? `at least ${min} ${noun}` : `${min} ${noun}`;
+}
+
+/**
+ * Checks whether the given argument count is accepted by the signature.
+ */
+export function acceptsArgumentCount(signature: OperatorSignature, count: number): boolean {
+    if (signature.rest) {
+        return count >= signature.params.length + (signature.minRest ?? 0);
+    }
+    return count === signature.params.length;
+}
+
+/**
+ * An argument passed to an OperatorBuilder: a mapped column (or the SQL of an aggregate), a value, a list of values,
+ * the SQL of a nested filter, or a Drizzle placeholder standing for a compiled value or list.
+ */
+export type OperatorArgument = AnyColumn | SQL | SQLPlaceholder | CoercedValue | (CoercedValue | SQLPlaceholder)[];
+
+/**
+ * Builds the Drizzle expression for an operator. It receives the processed arguments in order:
+ * mapped columns for `column` parameters, (coerced) JS values for `value` parameters, arrays of values
+ * for `array` parameters and Drizzle SQL expressions for `filter` parameters.
+ */
+export type OperatorBuilder = (...args: OperatorArgument[]) => DrizzleFilter;
+
+/**
+ * An operator that can be used in filter strings: its argument signature and how to build it.
+ */
+export interface OperatorDefinition {
+    signature: OperatorSignature;
+    build: OperatorBuilder;
+}
+
+/**
+ * The Drizzle functions behind the built-in operators. Their parameters are narrower than OperatorArgument; the
+ * generator only calls a builder with arguments that match its signature in OPERATOR_SIGNATURES, which are of
+ * the types these functions declare.
+ */
+const BUILT_IN_BUILDERS = {
+    and,
+    or,
+    not,
+    eq,
+    ne,
+    gt,
+    gte,
+    lt,
+    lte,
+    like,
+    ilike,
+    notLike,
+    notIlike,
+    isNull,
+    isNotNull,
+    inArray,
+    notInArray,
+    between,
+    notBetween,
+    arrayContains,
+    arrayContained,
+    arrayOverlaps,
+} satisfies Record<BuiltInOperatorName, (...args: never[]) => DrizzleFilter>;
+
+/**
+ * Names that cannot be used for operators because the grammar reserves them for literals and column references.
+ */
+const RESERVED_NAMES = ['true', 'false', 'null', 'date', 'col'];
+
+/**
+ * The set of operators available to the FilterGenerator and Validator.
+ * Pass one through the `operators` option to add domain operators or to restrict the built-in ones;
+ * different parts of an application can use different registries.
+ * `TName` tracks the registered names so that literal filter strings can be checked at compile time.
+ *
+ * Example:
+ * ```ts
+ * const operators = createOperatorRegistry().register('today', {
+ *     signature: { params: ['column'] },
+ *     build: (column) => sql`${column}::date = current_date`,
+ * });
+ * ```
+ */
+export class OperatorRegistry<TName extends string = string> {
+    private definitions = new Map<string, OperatorDefinition>();
+
+    /**
+     * Adds an operator, replacing any operator registered under the same name.
+     *
+     * @param name The function name used in filter strings. Must be an identifier.
+     * @param definition The operator's signature and builder.
+     * @returns The registry, for chaining.
+     */
+    public register<TNewName extends string>(name: TNewName, definition: OperatorDefinition): OperatorRegistry<TName | TNewName> {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || RESERVED_NAMES.includes(name.toLowerCase())) {
+            throw new Error(`Invalid operator name: '${name}'.`);
+        }
+        this.definitions.set(name, definition);
+        return this;
+    }
+
+    /**
+     * Removes an operator, e.g. to forbid a built-in one.
+     *
+     * @returns The registry, for chaining.
+     */
+    public unregister<TRemovedName extends TName>(name: TRemovedName): OperatorRegistry<Exclude<TName, TRemovedName>> {
+        this.definitions.delete(name);
+        return this as unknown as OperatorRegistry<Exclude<TName, TRemovedName>>;
+    }
+
+    public get(name: string): OperatorDefinition | undefined {
+        return this.definitions.get(name);
+    }
+
+    public has(name: string): boolean {
+        return this.definitions.has(name);
+    }
+
+    /**
+     * Returns the names of all registered operators.
+     */
+    public names(): TName[] {
+        return [...this.definitions.keys()] as TName[];
+    }
+
+    /**
+     * Returns an independent copy of the registry.
+     */
+    public clone(): OperatorRegistry<TName> {
+        const copy = new OperatorRegistry<TName>();
+        this.definitions.forEach((definition, name) => copy.register(name, definition));
+        return copy;
+    }
+}
+
+/**
+ * Creates a registry holding the built-in Drizzle operators.
+ */
+export function createOperatorRegistry(): OperatorRegistry<BuiltInOperatorName> {
+    const registry = new OperatorRegistry<BuiltInOperatorName>();
+    for (const [name, signature] of Object.entries(OPERATOR_SIGNATURES)) {
+        registry.register(name, { signature, build: BUILT_IN_BUILDERS[name as BuiltInOperatorName] as OperatorBuilder });
+    }
+    return registry;
+}
+
+/**
+ * Whether the registry holds the built-in Drizzle operator under its own name (and not a replacement or nothing).
+ */
+export function isBuiltInOperator(registry: OperatorRegistry, name: BuiltInOperatorName): boolean {
+    return registry.get(name)?.build === BUILT_IN_BUILDERS[name];
+}
+
+/**
+ * Escapes the LIKE wildcards `%` and `_` (and the escape character `\`) in a value,
+ * so that it matches literally inside a like/ilike pattern.
+ * The built-in like operators emit no ESCAPE clause, so this relies on `\` being the default escape character,
+ * as in PostgreSQL and MySQL. SQLite has no default, so register like/notLike with `escape '\'` there.
+ */
+export function escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+}
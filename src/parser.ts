@@ -1,11 +1,67 @@
-import { CallExpression, NumberLiteral, Program, StringLiteral } from "./ast";
+import { isAggregateFunction } from "./aggregates";
+import { Argument, ArrayLiteral, ASTNode, CallExpression, ColumnReference, DateLiteral, Placeholder, Program, ScalarLiteral, StringLiteral } from "./ast";
+import { Diagnostic, ParserError } from "./diagnostics";
 import { Lexer, Token, TokenType } from "./lexer";
+import { PolicyViolationError } from "./policy";
 
-export class ParserError extends Error {
-    constructor(message: string, public token?: Token) {
-        super(message);
-        this.name = 'ParserError';
-    }
+export { ParserError };
+
+/**
+ * Identifiers that denote literals rather than function calls. Like the other keywords, they are case-insensitive.
+ */
+export const LITERAL_KEYWORDS = ['true', 'false', 'null', 'date'];
+
+/**
+ * Whether an identifier is one of the LITERAL_KEYWORDS, in any case (e.g., `TRUE` or `Null`).
+ */
+export function isLiteralKeyword(name: string): boolean {
+    return LITERAL_KEYWORDS.includes(name.toLowerCase());
+}
+
+/**
+ * The identifier of the explicit column reference form, `col("name")`.
+ */
+export const COLUMN_KEYWORD = 'col';
+
+/**
+ * Maps infix comparison operator tokens to the Drizzle operator they produce.
+ */
+const INFIX_COMPARISON_OPERATORS: Record<string, string> = {
+    '=': 'eq',
+    '<': 'lt',
+    '<=': 'lte',
+    '>': 'gt',
+    '>=': 'gte',
+};
+
+/**
+ * Options controlling which grammar the Parser accepts.
+ */
+export interface ParserOptions {
+    /**
+     * `prefix` (default) accepts function calls such as `and(eq("a", 1), gt("b", 2))`.
+     * `infix` accepts expressions such as `a = 1 and (b > 2 or c is null)`.
+     */
+    syntax?: 'prefix' | 'infix';
+    /**
+     * Maximum nesting depth of function calls, `not` and parenthesized groups.
+     * Deeper input is rejected with a PolicyViolationError before it can exhaust the call stack.
+     */
+    maxDepth?: number;
+    /**
+     * Record the source span (`start`/`end`) of every node. Defaults to true.
+     * Without spans, ASTs parsed from different text compare equal when they have the same structure.
+     */
+    locations?: boolean;
+}
+
+/**
+ * The result of a recovering parse: the (possibly partial) Program and every problem found.
+ * `program` is undefined when not even the top-level expression could be parsed.
+ */
+export interface ParseResult {
+    program: Program | undefined;
+    diagnostics: Diagnostic[];
 }
 
 /**
@@ -14,23 +70,59 @@ export class ParserError extends Error {
  */
 export class Parser {
     private lexer: Lexer
+    private options: ParserOptions;
     private lookahead: Token | null = null; // The next token to be consumed
+    private previousToken: Token | null = null; // The most recently consumed token
+    private recovering = false; // Whether errors are collected instead of thrown (see parseWithRecovery)
+    private errors: ParserError[] = [];
+    private depth = 0; // The current nesting depth (see ParserOptions.maxDepth)
+    private openGroups = 0; // Parentheses/brackets consumed and not closed yet, to resynchronize after an error
 
-    constructor(lexer: Lexer) {
+    constructor(lexer: Lexer, options: ParserOptions = {}) {
         this.lexer = lexer;
+        this.options = options;
     }
 
     public parse(): Program {
-        this.lookahead = this.lexer.nextToken(); // Initialize lookahead
+        this.advance(); // Initialize lookahead
+        return this.parseProgram();
+    }
+
+    /**
+     * Parses the input without stopping at the first error.
+     * The parser recovers at commas and closing parentheses/brackets (and at `and`/`or` in infix mode),
+     * dropping the arguments it could not parse, and reports every problem as a Diagnostic.
+     */
+    public parseWithRecovery(): ParseResult {
+        this.recovering = true;
+        this.errors = [];
+        let program: Program | undefined;
+        try {
+            this.advance(); // Initialize lookahead
+            program = this.parseProgram();
+        } catch (e) {
+            this.report(e);
+        } finally {
+            this.recovering = false;
+        }
+
+        const source = this.lexer.getInput();
+        return {
+            program,
+            diagnostics: this.errors.map(error => error.toDiagnostic(source)),
+        };
+    }
+
+    private parseProgram(): Program {
         const expression = this.parseExpression();
 
-        if (this.lookahead.type !== TokenType.EOF) {
-            throw new ParserError(
-                `Unexpected token '${this.lookahead.value}' at position ${this.lookahead.position}. Expected end of input.`,
-                this.lookahead,
-            )
+        if (this.lookahead!.type !== TokenType.EOF) {
+            this.fail(new ParserError(
+                `Unexpected token '${this.lookahead!.value}' at position ${this.lookahead!.position}. Expected end of input.`,
+                this.lookahead!,
+            ))
         }
-        return { kind: 'Program', expression }
+        return this.withSpan({ kind: 'Program', expression }, expression.start!)
     }
 
     private consume(expectedType: TokenType, errorMessage?: string): Token {
@@ -42,10 +134,160 @@ export class Parser {
                 token!,
             )
         }
-        this.lookahead = this.lexer.nextToken(); // Move to the next token
+        this.previousToken = token;
+        this.trackGroup(expectedType);
+        this.advance(); // Move to the next token
         return token;
     }
 
+    /**
+     * Counts the parentheses and brackets opened and closed by a consumed token.
+     */
+    private trackGroup(type: TokenType): void {
+        if (type === TokenType.LParen || type === TokenType.LBracket) {
+            this.openGroups++;
+        } else if (type === TokenType.RParen || type === TokenType.RBracket) {
+            this.openGroups--;
+        }
+    }
+
+    /**
+     * Reads the next token into the lookahead.
+     * While recovering, lexer errors are recorded and lexing continues (an unclosed string runs to the end of input).
+     */
+    private advance(): void {
+        try {
+            this.lookahead = this.lexer.nextToken();
+        } catch (e) {
+            if (!this.recovering || !(e instanceof ParserError)) {
+                throw e;
+            }
+            this.report(e);
+            this.lookahead = this.lexer.nextToken();
+        }
+    }
+
+    /**
+     * Throws the error, or records it when recovering.
+     */
+    private fail(error: ParserError): void {
+        if (!this.recovering) {
+            throw error;
+        }
+        this.report(error);
+    }
+
+    private report(error: unknown): void {
+        if (!(error instanceof ParserError)) {
+            throw error;
+        }
+        // Errors re-thrown by a group whose operands all failed were already recorded.
+        if (!this.errors.includes(error)) {
+            this.errors.push(error);
+        }
+    }
+
+    /**
+     * Runs a parse step. While recovering, a failed step is recorded and the input is skipped up to the next
+     * token accepted by `isStop` at the current nesting level (after closing any parentheses/brackets the step
+     * opened, e.g. `date(` in `date(1)`); undefined is returned in place of the node.
+     */
+    private recover<T>(parseStep: () => T, isStop: (token: Token) => boolean): T | undefined {
+        if (!this.recovering) {
+            return parseStep();
+        }
+        const openGroups = this.openGroups;
+        try {
+            return parseStep();
+        } catch (e) {
+            this.report(e);
+            this.synchronize(isStop, this.openGroups - openGroups);
+            this.openGroups = openGroups;
+            return undefined;
+        }
+    }
+
+    /**
+     * Skips tokens until one accepted by `isStop` outside of any parentheses/brackets, or EOF.
+     *
+     * @param depth The number of parentheses/brackets already open, which are skipped up to their closing tokens.
+     */
+    private synchronize(isStop: (token: Token) => boolean, depth = 0): void {
+        while (!this.match(TokenType.EOF)) {
+            const token = this.lookahead!;
+            if (depth === 0 && isStop(token)) {
+                return;
+            }
+            if (token.type === TokenType.LParen || token.type === TokenType.LBracket) {
+                depth++;
+            } else if ((token.type === TokenType.RParen || token.type === TokenType.RBracket) && depth > 0) {
+                depth--;
+            }
+            this.previousToken = token;
+            this.advance();
+        }
+    }
+
+    /**
+     * While recovering, reports and skips anything between a list item and the next separator or closing token.
+     */
+    private expectSeparator(closingType: TokenType): void {
+        if (!this.recovering || this.match(TokenType.Comma) || this.match(closingType) || this.match(TokenType.EOF)) {
+            return;
+        }
+        this.report(new ParserError(
+            `Unexpected token '${this.lookahead!.value}' (type ${this.lookahead!.type}). Expected ',' or '${closingType === TokenType.RParen ? ')' : ']'}'.`,
+            this.lookahead!,
+        ));
+        // A ')' also ends an unclosed array literal.
+        this.synchronize(token => token.type === TokenType.Comma || token.type === closingType || token.type === TokenType.RParen);
+    }
+
+    /**
+     * Consumes a closing token. While recovering, a missing closing token is reported and parsing continues
+     * as if it had been present.
+     */
+    private consumeClosing(closingType: TokenType, errorMessage: string): void {
+        if (this.recovering && !this.match(closingType)) {
+            this.report(new ParserError(errorMessage, this.lookahead!));
+            this.trackGroup(closingType);
+            return;
+        }
+        this.consume(closingType, errorMessage);
+    }
+
+    /**
+     * Runs a parse step one nesting level deeper, enforcing `maxDepth`.
+     */
+    private nested<T>(token: Token, parseStep: () => T): T {
+        if (this.options.maxDepth !== undefined && this.depth >= this.options.maxDepth) {
+            throw new PolicyViolationError(
+                `Filter exceeds the maximum nesting depth of ${this.options.maxDepth}.`,
+                'MAX_DEPTH_EXCEEDED',
+                undefined,
+                token,
+            );
+        }
+        this.depth++;
+        try {
+            return parseStep();
+        } finally {
+            this.depth--;
+        }
+    }
+
+    /**
+     * Records the source span of a node: from `start` to the end of the most recently consumed token.
+     */
+    private withSpan<T extends ASTNode>(node: T, start: number): T {
+        if (this.options.locations === false) {
+            return node;
+        }
+        node.start = start;
+        node.end = this.previousToken!.end;
+        return node;
+    }
+
     /**
      * Checks if the current lookahead matches the given type without consuming it.
      */
@@ -53,11 +295,32 @@ export class Parser {
         return this.lookahead?.type === type
     }
 
+    /**
+     * Checks if the current lookahead is the given keyword (case-insensitive) without consuming it.
+     */
+    private matchKeyword(keyword: string): boolean {
+        return this.match(TokenType.Identifier) && this.lookahead!.value.toLowerCase() === keyword;
+    }
+
+    private consumeKeyword(keyword: string, errorMessage?: string): Token {
+        if (!this.matchKeyword(keyword)) {
+            throw new ParserError(
+                errorMessage ||
+                `Unexpected token '${this.lookahead?.value}' (type ${this.lookahead?.type}). Expected '${keyword}'.`,
+                this.lookahead!,
+            )
+        }
+        return this.consume(TokenType.Identifier);
+    }
+
     /**
      * @Parses a general expression.
-     * Currently, this only delegates to logical expressions.
+     * Delegates to logical expressions in prefix mode and to the infix grammar in infix mode.
      */
     private parseExpression(): CallExpression {
+        if (this.options.syntax === 'infix') {
+            return this.parseInfixOr();
+        }
         return this.parseLogicalExpression();
     }
 
@@ -79,9 +342,9 @@ export class Parser {
      */
     private parsePrimaryExpression(): CallExpression {
         if (this.match(TokenType.LParen)) {
-            this.consume(TokenType.LParen);
-            const expression = this.parseLogicalExpression(); // Recursively parse the expression inside the parentheses
-            this.consume(
+            const openToken = this.consume(TokenType.LParen);
+            const expression = this.nested(openToken, () => this.parseLogicalExpression()); // Recursively parse the expression inside the parentheses
+            this.consumeClosing(
                 TokenType.RParen,
                 `Expected ')' to close expression started at position ${expression.kind === 'CallExpression' ? this.lookahead?.position : 'unknown'}.`
             )
@@ -96,6 +359,234 @@ export class Parser {
         }
     }
 
+    /**
+     * Parses an infix disjunction: `<and-expr> or <and-expr> ...`.
+     * `or` binds weaker than `and`, which binds weaker than `not`.
+     */
+    private parseInfixOr(): CallExpression {
+        const operands = this.parseInfixOperands('or', () => this.parseInfixAnd());
+        return operands.length === 1
+            ? operands[0]!
+            : this.withSpan({ kind: 'CallExpression', functionName: 'or', args: operands }, operands[0]!.start!);
+    }
+
+    /**
+     * Parses an infix conjunction: `<not-expr> and <not-expr> ...`.
+     */
+    private parseInfixAnd(): CallExpression {
+        const operands = this.parseInfixOperands('and', () => this.parseInfixNot());
+        return operands.length === 1
+            ? operands[0]!
+            : this.withSpan({ kind: 'CallExpression', functionName: 'and', args: operands }, operands[0]!.start!);
+    }
+
+    /**
+     * Parses operands separated by the given logical keyword.
+     * While recovering, failed operands are dropped; if all of them fail, the last error is re-thrown
+     * so the enclosing group is dropped as well.
+     */
+    private parseInfixOperands(keyword: 'and' | 'or', parseOperand: () => CallExpression): CallExpression[] {
+        const isStop = (token: Token) =>
+            token.type === TokenType.RParen ||
+            (token.type === TokenType.Identifier && ['and', 'or'].includes(token.value.toLowerCase()));
+
+        const operands: CallExpression[] = [];
+        const pushOperand = () => {
+            const operand = this.recover(parseOperand, isStop);
+            if (operand) {
+                operands.push(operand);
+            }
+        };
+
+        pushOperand();
+        while (this.matchKeyword(keyword)) {
+            this.consume(TokenType.Identifier);
+            pushOperand();
+        }
+
+        if (operands.length === 0) {
+            throw this.errors[this.errors.length - 1]!;
+        }
+        return operands;
+    }
+
+    /**
+     * Parses an optionally negated infix expression: `not <not-expr>` or a primary expression.
+     */
+    private parseInfixNot(): CallExpression {
+        if (this.matchKeyword('not')) {
+            const notToken = this.consume(TokenType.Identifier);
+            const operand = this.nested(notToken, () => this.parseInfixNot());
+            return this.withSpan({ kind: 'CallExpression', functionName: 'not', args: [operand] }, notToken.position);
+        }
+        return this.parseInfixPrimary();
+    }
+
+    /**
+     * Parses a parenthesized infix expression, a prefix function call or a comparison.
+     */
+    private parseInfixPrimary(): CallExpression {
+        if (this.match(TokenType.LParen)) {
+            const openToken = this.consume(TokenType.LParen);
+            const expression = this.nested(openToken, () => this.parseInfixOr());
+            this.consumeClosing(
+                TokenType.RParen,
+                `Expected ')' to close expression started at position ${openToken.position}.`,
+            )
+            return expression;
+        }
+        // Prefix calls may be mixed into infix expressions (e.g., `isNull("a") and b = 1`).
+        if (this.matchCall()) {
+            const aggregate = isAggregateFunction(this.lookahead!.value);
+            const call = this.parseCallExpression();
+            // An aggregate followed by a comparison is its left-hand side (e.g., `sum(amount) > 1000` in a HAVING filter).
+            return aggregate && this.matchComparison() ? this.parseComparison(call) : call;
+        }
+        return this.parseComparison(this.parseInfixOperand());
+    }
+
+    /**
+     * Checks if the lookahead starts a function call: an identifier (other than `col`) followed by '('.
+     */
+    private matchCall(): boolean {
+        return this.match(TokenType.Identifier) && !this.matchKeyword(COLUMN_KEYWORD) && this.lexer.peekToken().type === TokenType.LParen;
+    }
+
+    /**
+     * Checks if the lookahead starts the operator of an infix comparison (e.g., `>`, `like` or `is`).
+     */
+    private matchComparison(): boolean {
+        return this.match(TokenType.Operator) || ['is', 'not', 'like', 'ilike', 'in', 'between'].some(keyword => this.matchKeyword(keyword));
+    }
+
+    /**
+     * Parses an infix comparison such as `age >= 18`, `name like "A%"`, `status in ["a", "b"]`,
+     * `age between 18 and 30`, `email is not null` or `count() > 5`, given its left-hand side.
+     */
+    private parseComparison(operand: ColumnReference | StringLiteral | CallExpression): CallExpression {
+        const call = (functionName: string, ...rest: Argument[]): CallExpression => this.withSpan({
+            kind: 'CallExpression',
+            functionName,
+            args: [operand, ...rest],
+        }, operand.start!);
+
+        if (this.match(TokenType.Operator)) {
+            const operatorToken = this.consume(TokenType.Operator);
+            const value = this.parseInfixValue();
+            const notEqual = operatorToken.value === '!=' || operatorToken.value === '<>';
+            // A comparison with NULL is never true in SQL, so `= null` and `!= null` are read as `is null` and `is not null`.
+            if (value.kind === 'NullLiteral') {
+                if (operatorToken.value !== '=' && !notEqual) {
+                    throw new ParserError(`Cannot compare with null using '${operatorToken.value}'. Use 'is null' or 'is not null'.`, operatorToken);
+                }
+                return call(notEqual ? 'isNotNull' : 'isNull');
+            }
+            return call(notEqual ? 'ne' : INFIX_COMPARISON_OPERATORS[operatorToken.value]!, value);
+        }
+
+        if (this.matchKeyword('is')) {
+            this.consume(TokenType.Identifier);
+            const negated = this.matchKeyword('not');
+            if (negated) {
+                this.consume(TokenType.Identifier);
+            }
+            this.consumeKeyword('null', `Expected 'null' after 'is${negated ? ' not' : ''}'.`);
+            return call(negated ? 'isNotNull' : 'isNull');
+        }
+
+        const negated = this.matchKeyword('not');
+        if (negated) {
+            this.consume(TokenType.Identifier);
+        }
+
+        if (this.matchKeyword('like') || this.matchKeyword('ilike')) {
+            const operator = this.consume(TokenType.Identifier).value.toLowerCase();
+            return call(negated ? (operator === 'like' ? 'notLike' : 'notIlike') : operator, this.parseInfixValue());
+        }
+
+        if (this.matchKeyword('in')) {
+            this.consume(TokenType.Identifier);
+            return call(negated ? 'notInArray' : 'inArray', this.parseInfixList());
+        }
+
+        if (this.matchKeyword('between')) {
+            this.consume(TokenType.Identifier);
+            const lower = this.parseInfixValue();
+            this.consumeKeyword('and', `Expected 'and' between the bounds of 'between'.`);
+            const upper = this.parseInfixValue();
+            return call(negated ? 'notBetween' : 'between', lower, upper);
+        }
+
+        throw new ParserError(
+            `Unexpected token '${this.lookahead?.value}' (type ${this.lookahead?.type}). Expected a comparison operator after '${operand.kind === 'ColumnReference' ? operand.name : operand.kind === 'StringLiteral' ? operand.value : `${operand.functionName}(...)`}'.`,
+            this.lookahead!,
+        )
+    }
+
+    /**
+     * Parses the left-hand side of an infix comparison: a column reference or a string literal.
+     */
+    private parseInfixOperand(): ColumnReference | StringLiteral {
+        if (this.match(TokenType.Identifier) && !isLiteralKeyword(this.lookahead!.value)) {
+            return this.parseColumnReference();
+        }
+        if (this.match(TokenType.StringLiteral)) {
+            const token = this.consume(TokenType.StringLiteral);
+            return this.withSpan({ kind: 'StringLiteral', value: token.value }, token.position);
+        }
+        throw new ParserError(
+            `Unexpected token '${this.lookahead?.value}' (type ${this.lookahead?.type}). Expected a column name, a function call or a '('.`,
+            this.lookahead!,
+        )
+    }
+
+    /**
+     * Parses the right-hand side of an infix comparison: a literal, a placeholder, a column reference (e.g., `a > b`)
+     * or an aggregate call (e.g., `max(price) > avg(price)`).
+     */
+    private parseInfixValue(): ScalarLiteral | Placeholder | ColumnReference | CallExpression {
+        if (this.isLiteralStart()) {
+            return this.parseLiteral();
+        }
+        if (this.matchCall() && isAggregateFunction(this.lookahead!.value)) {
+            return this.parseCallExpression();
+        }
+        if (this.match(TokenType.Placeholder)) {
+            return this.parsePlaceholder();
+        }
+        if (this.match(TokenType.Identifier) && !this.matchKeyword('and') && !this.matchKeyword('or')) {
+            return this.parseColumnReference();
+        }
+        throw new ParserError(
+            `Unexpected token '${this.lookahead?.value}' (type ${this.lookahead?.type}). Expected a literal value or a column name.`,
+            this.lookahead!,
+        )
+    }
+
+    /**
+     * Parses the list operand of `in`: an array literal `[...]`, a parenthesized list `(...)` or a placeholder.
+     */
+    private parseInfixList(): ArrayLiteral | Placeholder {
+        if (this.match(TokenType.LBracket)) {
+            return this.parseArrayLiteral();
+        }
+        if (this.match(TokenType.Placeholder)) {
+            return this.parsePlaceholder();
+        }
+
+        const openToken = this.consume(TokenType.LParen, `Expected '[' or '(' to start the list after 'in'.`);
+        const elements: ScalarLiteral[] = [this.parseArrayElement()];
+        while (this.match(TokenType.Comma)) {
+            this.consume(TokenType.Comma);
+            elements.push(this.parseArrayElement());
+        }
+        this.consumeClosing(
+            TokenType.RParen,
+            `Expected ')' to close list started at position ${openToken.position}.`,
+        )
+        return this.withSpan({ kind: 'ArrayLiteral', elements }, openToken.position);
+    }
+
     /**
      * Parses a function call expression (e.g., `eq("col", "val")`).
      */
@@ -108,77 +599,230 @@ export class Parser {
             TokenType.LParen,
             `Expected '(' after function name '${functionNameToken.value}'.`
         )
+        // SQL's `count(*)` is read as `count()`, which counts rows.
+        if (functionNameToken.value === 'count' && this.match(TokenType.Unknown) && this.lookahead!.value === '*' && this.lexer.peekToken().type === TokenType.RParen) {
+            this.consume(TokenType.Unknown);
+        }
 
-        const args: (StringLiteral | NumberLiteral | CallExpression)[] = this.parseArguments();
+        const args: Argument[] = this.nested(functionNameToken, () => this.parseArguments());
 
-        this.consume(
+        this.consumeClosing(
             TokenType.RParen,
             `Expected ')' to close function call '${functionNameToken.value}'.`,
         )
 
-        return {
+        return this.withSpan({
             kind: 'CallExpression',
             functionName: functionNameToken.value,
             args,
-        }
+        }, functionNameToken.position)
     }
 
     /**
      * Parses the arguments within a function call.
-     * Arguments can be string literals or nested call expressions.
+     * Arguments can be literals, array literals or nested call expressions.
      */
-    private parseArguments(): (StringLiteral | NumberLiteral | CallExpression)[] {
-        const args: (StringLiteral | NumberLiteral | CallExpression)[] = [];
+    private parseArguments(): Argument[] {
+        const args: Argument[] = [];
 
         // Check for empty arguments (.e.g., `func()`)
         if (this.match(TokenType.RParen)) {
             return args;
         }
 
+        const isStop = (token: Token) => token.type === TokenType.Comma || token.type === TokenType.RParen;
+        const pushArgument = () => {
+            const arg = this.recover(() => this.parseArgument(), isStop);
+            if (arg) {
+                args.push(arg);
+            }
+            this.expectSeparator(TokenType.RParen);
+        };
+
         // Parse the first argument
-        args.push(this.parseArgument());
+        pushArgument();
 
         // Parse subsequent arguments separated by commas
         while (this.match(TokenType.Comma)) {
             this.consume(TokenType.Comma);
-            args.push(this.parseArgument());
+            pushArgument();
         }
 
         return args;
     }
 
-    private parseArgument(): StringLiteral | NumberLiteral | CallExpression {
+    private parseArgument(): Argument {
+        if (this.isLiteralStart()) {
+            return this.parseLiteral();
+        } else if (this.match(TokenType.LBracket)) {
+            return this.parseArrayLiteral();
+        } else if (this.match(TokenType.Placeholder)) {
+            return this.parsePlaceholder();
+        } else if (this.match(TokenType.Identifier)) {
+            // Allow nested function calls as arguments (e.g., `and(eq(...), or(...))`)
+            if (!this.matchKeyword(COLUMN_KEYWORD) && this.lexer.peekToken().type === TokenType.LParen) {
+                return this.parseCallExpression();
+            }
+            return this.parseColumnReference();
+        } else {
+            throw new ParserError(
+                `Unexpected token '${this.lookahead?.value}' (type ${this.lookahead?.type}). Expected a literal, a column reference, an array literal, a placeholder or a nested function call as an argument.`,
+                this.lookahead!,
+            )
+        }
+    }
+
+    /**
+     * Parses a column reference: a bare identifier (e.g., `name`) or `col("name")`.
+     * A bare `col` not followed by '(' names a column called "col".
+     */
+    private parseColumnReference(): ColumnReference {
+        const nameToken = this.consume(TokenType.Identifier);
+        if (nameToken.value.toLowerCase() !== COLUMN_KEYWORD || !this.match(TokenType.LParen)) {
+            return this.withSpan({ kind: 'ColumnReference', name: nameToken.value }, nameToken.position);
+        }
+
+        this.consume(TokenType.LParen);
+        const columnToken = this.consume(
+            TokenType.StringLiteral,
+            `Expected a column name string but got '${this.lookahead?.value}' (type ${this.lookahead?.type}).`,
+        );
+        this.consume(TokenType.RParen, `Expected ')' to close column reference.`);
+        return this.withSpan({ kind: 'ColumnReference', name: columnToken.value }, nameToken.position);
+    }
+
+    /**
+     * Parses a template placeholder (e.g., `$tenant`).
+     */
+    private parsePlaceholder(): Placeholder {
+        const token = this.consume(TokenType.Placeholder);
+        return this.withSpan({ kind: 'Placeholder', name: token.value }, token.position);
+    }
+
+    /**
+     * Parses an array literal (e.g., `["a", "b", 3]`).
+     * Elements must be scalar literals.
+     */
+    private parseArrayLiteral(): ArrayLiteral {
+        const openToken = this.consume(TokenType.LBracket);
+        const elements: ScalarLiteral[] = [];
+
+        if (!this.match(TokenType.RBracket)) {
+            const isStop = (token: Token) =>
+                token.type === TokenType.Comma || token.type === TokenType.RBracket || token.type === TokenType.RParen;
+            const pushElement = () => {
+                const element = this.recover(() => this.parseArrayElement(), isStop);
+                if (element) {
+                    elements.push(element);
+                }
+                this.expectSeparator(TokenType.RBracket);
+            };
+
+            pushElement();
+            while (this.match(TokenType.Comma)) {
+                this.consume(TokenType.Comma);
+                pushElement();
+            }
+        }
+
+        this.consumeClosing(
+            TokenType.RBracket,
+            `Expected ']' to close array literal started at position ${openToken.position}.`,
+        )
+
+        return this.withSpan({
+            kind: 'ArrayLiteral',
+            elements,
+        }, openToken.position)
+    }
+
+    private parseArrayElement(): ScalarLiteral {
+        if (this.isLiteralStart()) {
+            return this.parseLiteral();
+        }
+        throw new ParserError(
+            `Unexpected token '${this.lookahead?.value}' (type ${this.lookahead?.type}). Expected a literal as an array element.`,
+            this.lookahead!,
+        )
+    }
+
+    /**
+     * Checks if the lookahead starts a scalar literal (string, number, keyword or date literal).
+     */
+    private isLiteralStart(): boolean {
+        return this.match(TokenType.StringLiteral) ||
+            this.match(TokenType.NumberLiteral) ||
+            (this.match(TokenType.Identifier) && isLiteralKeyword(this.lookahead!.value));
+    }
+
+    /**
+     * Parses a scalar literal: a string, a number, `true`, `false`, `null` or `date("...")`.
+     */
+    private parseLiteral(): ScalarLiteral {
         if (this.match(TokenType.StringLiteral)) {
             const stringToken = this.consume(
                 TokenType.StringLiteral,
                 `Expected a staring literal but got '${this.lookahead?.value}' (type ${this.lookahead?.type}).`,
             );
-            return {
+            return this.withSpan({
                 kind: 'StringLiteral',
                 value: stringToken.value,
+            }, stringToken.position)
+        }
+
+        if (this.match(TokenType.Identifier)) {
+            const keywordToken = this.lookahead!;
+            const keyword = keywordToken.value.toLowerCase();
+            switch (keyword) {
+                case 'true':
+                case 'false':
+                    this.consume(TokenType.Identifier);
+                    return this.withSpan({ kind: 'BooleanLiteral', value: keyword === 'true' }, keywordToken.position);
+                case 'null':
+                    this.consume(TokenType.Identifier);
+                    return this.withSpan({ kind: 'NullLiteral', value: null }, keywordToken.position);
+                case 'date':
+                    return this.parseDateLiteral();
             }
-        } else if (this.match(TokenType.NumberLiteral)) {
-            const numberToken = this.consume(
-                TokenType.NumberLiteral,
-                `Expected a number literal but got '${this.lookahead?.value}' (type ${this.lookahead?.type}).`,
-            );
-            // Convert the string value to a number
-            const numericValue = parseFloat(numberToken.value);
-            if (isNaN(numericValue)) {
-                throw new ParserError(`Invalid number literal: '${numberToken.value}'`, numberToken);
-            }
-            return {
-                kind: 'NumberLiteral',
-                value: numericValue,
-            };
-        } else if (this.match(TokenType.Identifier)) {
-            // Allow nested function calls as arguments (e.g., `and(eq(...), or(...))`)
-            return this.parseCallExpression();
-        } else {
-            throw new ParserError(
-                `Unexpected token '${this.lookahead?.value}' (type ${this.lookahead?.type}). Expected a string literal or a nested function call as an argument.`,
-                this.lookahead!,
-            )
         }
+
+        const numberToken = this.consume(
+            TokenType.NumberLiteral,
+            `Expected a number literal but got '${this.lookahead?.value}' (type ${this.lookahead?.type}).`,
+        );
+        // Convert the string value to a number
+        const numericValue = parseFloat(numberToken.value);
+        if (isNaN(numericValue)) {
+            throw new ParserError(`Invalid number literal: '${numberToken.value}'`, numberToken, 'INVALID_NUMBER');
+        }
+        // Numbers too large for a double (e.g., 1e400) would silently become Infinity.
+        if (!Number.isFinite(numericValue)) {
+            throw new ParserError(`Number literal out of range: '${numberToken.value}'`, numberToken, 'INVALID_NUMBER');
+        }
+        return this.withSpan({
+            kind: 'NumberLiteral',
+            value: numericValue,
+        }, numberToken.position);
     }
-}
\ No newline at end of file
+
+    /**
+     * Parses a typed date literal (e.g., `date("2024-01-01")` or `date("2024-01-01T10:00:00Z")`).
+     */
+    private parseDateLiteral(): DateLiteral {
+        const dateToken = this.consume(TokenType.Identifier);
+        this.consume(TokenType.LParen, `Expected '(' after 'date'.`);
+        const valueToken = this.consume(
+            TokenType.StringLiteral,
+            `Expected a date string but got '${this.lookahead?.value}' (type ${this.lookahead?.type}).`,
+        );
+        if (isNaN(Date.parse(valueToken.value))) {
+            throw new ParserError(`Invalid date literal: '${valueToken.value}'`, valueToken, 'INVALID_DATE');
+        }
+        this.consume(TokenType.RParen, `Expected ')' to close date literal.`);
+
+        return this.withSpan({
+            kind: 'DateLiteral',
+            value: valueToken.value,
+        }, dateToken.position);
+    }
+}
@@ -0,0 +1,192 @@
+import { Argument, ASTNode, Program, SortProgram } from "./ast";
+import { DiagnosticCode, ParserError, spanOf } from "./diagnostics";
+import { ColumnMap, FilterGeneratorOptions } from "./generator";
+import type { Token } from "./lexer";
+import { resolveColumnPath } from "./relations";
+
+/**
+ * Restrictions applied to filters before they are generated, for filter strings that come from untrusted users.
+ * Every limit is optional; an empty policy allows everything.
+ */
+export interface FilterPolicy {
+    /** Operators that may be used anywhere in the filter, e.g. `['and', 'or', 'eq', 'inArray']`. */
+    operators?: string[];
+    /** Columns (ColumnMap keys or dotted relation paths) that may be referenced. Any mapped column if omitted. */
+    columns?: string[];
+    /**
+     * Operators allowed per column, e.g. `{ passwordHash: ['eq'] }`.
+     * Columns without an entry may be used with any allowed operator.
+     */
+    columnOperators?: Record<string, string[]>;
+    /** Maximum nesting depth of function calls; a single comparison has depth 1. Also enforced while parsing. */
+    maxDepth?: number;
+    /** Maximum number of AST nodes (calls, literals, column references and array elements). */
+    maxNodes?: number;
+    /** Maximum number of elements in an array literal (e.g., the list of inArray). */
+    maxArrayLength?: number;
+    /** Maximum length of a string literal. */
+    maxStringLength?: number;
+}
+
+/**
+ * The diagnostic codes raised for policy violations.
+ */
+export type PolicyViolationCode = Extract<
+    DiagnosticCode,
+    | 'OPERATOR_NOT_ALLOWED'
+    | 'COLUMN_NOT_ALLOWED'
+    | 'MAX_DEPTH_EXCEEDED'
+    | 'MAX_NODES_EXCEEDED'
+    | 'MAX_ARRAY_LENGTH_EXCEEDED'
+    | 'MAX_STRING_LENGTH_EXCEEDED'
+>;
+
+/**
+ * Thrown when a filter breaks a FilterPolicy. The offending AST node is attached when known;
+ * depth violations found while parsing point at the token instead.
+ */
+export class PolicyViolationError extends ParserError {
+    constructor(message: string, code: PolicyViolationCode, public node?: ASTNode, token?: Token) {
+        super(message, token, code, spanOf(node));
+        this.name = 'PolicyViolationError';
+    }
+}
+
+/**
+ * The PolicyEnforcer checks an AST against a FilterPolicy and throws on the first violation.
+ * The walk is iterative, so hostile inputs cannot exhaust the call stack here.
+ */
+export class PolicyEnforcer {
+    private policy: FilterPolicy;
+    private columnMap: ColumnMap;
+    private options: FilterGeneratorOptions;
+
+    /**
+     * @param policy The restrictions to enforce.
+     * @param columnMap The ColumnMap used for generation, to tell column names from string values.
+     * @param options The options the AST will be generated with (strict mode affects what counts as a column).
+     */
+    constructor(policy: FilterPolicy, columnMap: ColumnMap, options: FilterGeneratorOptions = {}) {
+        this.policy = policy;
+        this.columnMap = columnMap;
+        this.options = options;
+    }
+
+    /**
+     * Checks the given AST.
+     *
+     * @param ast The root of the AST (Program node) to check.
+     * @throws PolicyViolationError for the first violation, in source order.
+     */
+    public enforce(ast: Program): void {
+        if (!ast.expression) {
+            return;
+        }
+
+        const { maxDepth, maxNodes, maxArrayLength, maxStringLength } = this.policy;
+        const stack: { node: Argument; depth: number }[] = [{ node: ast.expression, depth: 1 }];
+        let nodeCount = 0;
+
+        while (stack.length > 0) {
+            const { node, depth } = stack.pop()!;
+
+            nodeCount += node.kind === 'ArrayLiteral' ? 1 + node.elements.length : 1;
+            if (maxNodes !== undefined && nodeCount > maxNodes) {
+                throw new PolicyViolationError(`Filter exceeds the maximum of ${maxNodes} nodes.`, 'MAX_NODES_EXCEEDED', node);
+            }
+
+            switch (node.kind) {
+                case 'CallExpression':
+                    if (maxDepth !== undefined && depth > maxDepth) {
+                        throw new PolicyViolationError(`Filter exceeds the maximum nesting depth of ${maxDepth}.`, 'MAX_DEPTH_EXCEEDED', node);
+                    }
+                    this.checkOperator(node.functionName, node);
+                    // Push in reverse so that arguments are checked in source order.
+                    for (let i = node.args.length - 1; i >= 0; i--) {
+                        stack.push({ node: node.args[i]!, depth: depth + 1 });
+                    }
+                    this.checkColumns(node.functionName, node.args);
+                    break;
+                case 'ArrayLiteral':
+                    if (maxArrayLength !== undefined && node.elements.length > maxArrayLength) {
+                        throw new PolicyViolationError(
+                            `Array literal has ${node.elements.length} elements; the maximum is ${maxArrayLength}.`,
+                            'MAX_ARRAY_LENGTH_EXCEEDED',
+                            node,
+                        );
+                    }
+                    node.elements.forEach(element => this.checkString(element, maxStringLength));
+                    break;
+                default:
+                    this.checkString(node, maxStringLength);
+                    break;
+            }
+        }
+    }
+
+    private checkOperator(functionName: string, node: ASTNode): void {
+        if (this.policy.operators && !this.policy.operators.includes(functionName)) {
+            throw new PolicyViolationError(`Operator '${functionName}' is not allowed.`, 'OPERATOR_NOT_ALLOWED', node);
+        }
+    }
+
+    /**
+     * Checks the keys of a sort string (see SortParser) against the column allowlist.
+     */
+    public enforceSort(sort: SortProgram): void {
+        sort.keys.forEach(key => this.enforceColumn(key.column, key));
+    }
+
+    /**
+     * Checks a column name (e.g., of a selected field) against the column allowlist.
+     */
+    public enforceColumn(name: string, node?: ASTNode): void {
+        if (this.policy.columns && !this.policy.columns.includes(name)) {
+            throw new PolicyViolationError(`Column '${name}' is not allowed.`, 'COLUMN_NOT_ALLOWED', node);
+        }
+    }
+
+    /**
+     * Checks the column allowlist and the per-column operator rules for the columns a call operates on.
+     */
+    private checkColumns(functionName: string, args: Argument[]): void {
+        for (const arg of args) {
+            const name = this.columnNameOf(arg);
+            if (name === undefined) {
+                continue;
+            }
+            this.enforceColumn(name, arg);
+            const allowedOperators = this.policy.columnOperators?.[name];
+            if (allowedOperators && !allowedOperators.includes(functionName)) {
+                throw new PolicyViolationError(
+                    `Operator '${functionName}' is not allowed on column '${name}'.`,
+                    'OPERATOR_NOT_ALLOWED',
+                    arg,
+                );
+            }
+        }
+    }
+
+    /**
+     * Returns the column an argument refers to, resolving string literals the way the FilterGenerator does.
+     */
+    private columnNameOf(arg: Argument): string | undefined {
+        if (arg.kind === 'ColumnReference') {
+            return arg.name;
+        }
+        if (arg.kind === 'StringLiteral' && !this.options.strict && resolveColumnPath(this.columnMap, arg.value)) {
+            return arg.value;
+        }
+        return undefined;
+    }
+
+    private checkString(node: Argument, maxStringLength: number | undefined): void {
+        if (maxStringLength !== undefined && node.kind === 'StringLiteral' && node.value.length > maxStringLength) {
+            throw new PolicyViolationError(
+                `String literal is ${node.value.length} characters long; the maximum is ${maxStringLength}.`,
+                'MAX_STRING_LENGTH_EXCEEDED',
+                node,
+            );
+        }
+    }
+}
@@ -0,0 +1,134 @@
+import { Argument, CallExpression, ColumnReference, Program, ScalarLiteral } from "./ast";
+import { COLUMN_KEYWORD, isLiteralKeyword } from "./parser";
+
+/**
+ * Options controlling how the Printer lays out a filter.
+ */
+export interface PrinterOptions {
+    /**
+     * `compact` (default) prints the whole filter on one line.
+     * `pretty` puts each argument of a call that contains nested calls on its own indented line.
+     */
+    mode?: 'compact' | 'pretty';
+    /** The indentation of the pretty mode: a number of spaces or a string. Defaults to 4 spaces. */
+    indent?: number | string;
+}
+
+/**
+ * Identifiers as read by the Lexer, including dotted paths such as "organization.name".
+ */
+export const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+/**
+ * Placeholder names as read by the Lexer (after the '$'); unlike identifiers, they have no dots.
+ */
+export const PLACEHOLDER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * The Printer turns an AST back into a filter string in prefix syntax.
+ * Its output is canonical: the same AST always prints the same way, and parsing the output
+ * (with `locations: false`) yields the printed AST again for any Program; ASTs the grammar cannot express are rejected.
+ */
+export class Printer {
+    private mode: 'compact' | 'pretty';
+    private indent: string;
+
+    constructor(options: PrinterOptions = {}) {
+        this.mode = options.mode ?? 'compact';
+        this.indent = typeof options.indent === 'string' ? options.indent : ' '.repeat(options.indent ?? 4);
+    }
+
+    /**
+     * Prints an AST or a part of it.
+     *
+     * @param node The Program node, or any argument node.
+     * @throws Error if the AST holds something the grammar cannot express (e.g., a NaN number or an invalid function name).
+     */
+    public print(node: Program | Argument): string {
+        return this.printNode(node.kind === 'Program' ? node.expression : node, 0);
+    }
+
+    private printNode(node: Argument, level: number): string {
+        switch (node.kind) {
+            case 'CallExpression':
+                return this.printCall(node, level);
+            case 'ColumnReference':
+                return this.printColumnReference(node);
+            case 'ArrayLiteral':
+                return `[${node.elements.map(element => this.printLiteral(element)).join(', ')}]`;
+            case 'Placeholder':
+                if (!PLACEHOLDER_NAME.test(node.name)) {
+                    throw new Error(`Cannot print the placeholder '$${node.name}': not a valid placeholder name.`);
+                }
+                return `$${node.name}`;
+            default:
+                return this.printLiteral(node);
+        }
+    }
+
+    private printCall(node: CallExpression, level: number): string {
+        // Names the Parser reads as literals or column references cannot be printed as calls.
+        if (!IDENTIFIER.test(node.functionName) || isLiteralKeyword(node.functionName) || node.functionName.toLowerCase() === COLUMN_KEYWORD) {
+            throw new Error(`Cannot print a call to '${node.functionName}': not a valid function name.`);
+        }
+
+        const multiline = this.mode === 'pretty' && node.args.some(arg => arg.kind === 'CallExpression');
+        if (!multiline) {
+            return `${node.functionName}(${node.args.map(arg => this.printNode(arg, level)).join(', ')})`;
+        }
+
+        const argumentIndent = this.indent.repeat(level + 1);
+        const args = node.args.map(arg => argumentIndent + this.printNode(arg, level + 1));
+        return `${node.functionName}(\n${args.join(',\n')}\n${this.indent.repeat(level)})`;
+    }
+
+    /**
+     * Prints a column reference as a bare identifier when the Parser would read it back as one, and as `col("...")` otherwise.
+     */
+    private printColumnReference(node: ColumnReference): string {
+        if (IDENTIFIER.test(node.name) && !isLiteralKeyword(node.name) && node.name.toLowerCase() !== COLUMN_KEYWORD) {
+            return node.name;
+        }
+        return `${COLUMN_KEYWORD}(${this.printString(node.name)})`;
+    }
+
+    private printLiteral(node: ScalarLiteral): string {
+        switch (node.kind) {
+            case 'StringLiteral':
+                return this.printString(node.value);
+            case 'NumberLiteral':
+                if (!Number.isFinite(node.value)) {
+                    throw new Error(`Cannot print the number ${node.value}: only finite numbers can be written in a filter.`);
+                }
+                return Object.is(node.value, -0) ? '-0' : String(node.value);
+            case 'BooleanLiteral':
+                return String(node.value);
+            case 'NullLiteral':
+                return 'null';
+            case 'DateLiteral':
+                return `date(${this.printString(node.value)})`;
+        }
+    }
+
+    /**
+     * Quotes a string. The Lexer keeps escape sequences in string values (e.g., `"100\%"` is read as `100\%`, a
+     * LIKE escape), so they are printed as they are, and any other double quote is doubled.
+     *
+     * @throws Error if the value ends with a backslash that is not part of an escape sequence, which no string literal can hold.
+     */
+    private printString(value: string): string {
+        let printed = '';
+        for (let i = 0; i < value.length; i++) {
+            const char = value[i]!;
+            if (char === '\\') {
+                if (i + 1 === value.length) {
+                    throw new Error(`Cannot print the string '${value}': it ends with a backslash that escapes nothing.`);
+                }
+                printed += char + value[++i];
+            } else {
+                printed += char === '"' ? '""' : char;
+            }
+        }
+        return `"${printed}"`;
+    }
+}
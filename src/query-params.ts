@@ -0,0 +1,126 @@
+import { AnyColumn, getTableColumns, SQL } from "drizzle-orm";
+import { DrizzleFilter } from "./ast";
+import { ParserError } from "./diagnostics";
+import { ColumnMap } from "./generator";
+import { PolicyEnforcer } from "./policy";
+import { resolveColumnPath } from "./relations";
+
+/**
+ * The query parameters read by convertQueryParams.
+ */
+export type ListQueryParameter = 'filter' | 'sort' | 'limit' | 'offset' | 'fields';
+
+/**
+ * Query parameters as `URLSearchParams` or as a record such as Express's `req.query` (repeated parameters as arrays).
+ */
+export type QueryParamsInput = URLSearchParams | Record<string, string | string[] | undefined>;
+
+/**
+ * Limits for the `limit` and `offset` query parameters.
+ */
+export interface ListQueryOptions {
+    /** The limit when the `limit` parameter is absent, capped at `maxLimit`. No limit if omitted. */
+    defaultLimit?: number;
+    /** The largest `limit` accepted; larger values throw a QueryParameterError. */
+    maxLimit?: number;
+    /** The largest `offset` accepted; larger values throw a QueryParameterError. */
+    maxOffset?: number;
+}
+
+/**
+ * The parts of a list query, ready for `db.query.users.findMany(query)` or for
+ * `db.select(query.selection).from(users).where(query.where).orderBy(...query.orderBy)`.
+ * Parts whose parameter is absent (and without a default) are omitted.
+ */
+export interface ListQuery {
+    where?: DrizzleFilter;
+    orderBy?: SQL[];
+    limit?: number;
+    offset?: number;
+    /** The selected fields in the form of `findMany`'s `columns`, keyed by the table's property names. */
+    columns?: Record<string, true>;
+    /** The selected fields as a `db.select()` selection, keyed by the field names. */
+    selection?: Record<string, AnyColumn>;
+}
+
+/**
+ * Thrown when the `limit`, `offset` or `fields` query parameter is invalid, or a parameter that takes a single value
+ * is repeated. Errors in the `filter` and `sort` parameters are thrown as for convertStringToDrizzleFilter and
+ * convertStringToDrizzleOrderBy, with spans in the parameter's value.
+ */
+export class QueryParameterError extends ParserError {
+    constructor(message: string, public parameter: ListQueryParameter) {
+        super(message, undefined, 'INVALID_QUERY_PARAMETER');
+        this.name = 'QueryParameterError';
+    }
+}
+
+/**
+ * Returns the values of a query parameter; empty values are dropped.
+ */
+export function readQueryParam(params: QueryParamsInput, name: ListQueryParameter): string[] {
+    const values = params instanceof URLSearchParams ? params.getAll(name) : [params[name] ?? []].flat();
+    return values.filter(value => value.trim() !== '');
+}
+
+/**
+ * Reads a query parameter holding a single non-negative integer (e.g., `limit`).
+ */
+export function readCount(params: QueryParamsInput, name: 'limit' | 'offset', max: number | undefined): number | undefined {
+    const values = readQueryParam(params, name);
+    if (values.length > 1) {
+        throw new QueryParameterError(`The '${name}' parameter may only be given once.`, name);
+    }
+    if (values.length === 0) {
+        return undefined;
+    }
+
+    const value = values[0]!.trim();
+    if (!/^\d+$/.test(value) || !Number.isSafeInteger(Number(value))) {
+        throw new QueryParameterError(`The '${name}' parameter must be a non-negative integer, got '${value}'.`, name);
+    }
+    const count = Number(value);
+    if (max !== undefined && count > max) {
+        throw new QueryParameterError(`The '${name}' parameter must be at most ${max}, got ${count}.`, name);
+    }
+    return count;
+}
+
+/**
+ * Resolves the comma-separated `fields` parameter (e.g., `id,name`) through the ColumnMap.
+ *
+ * @throws QueryParameterError for unknown columns and columns of related tables, PolicyViolationError for
+ * columns outside the policy's allowlist.
+ */
+export function readFields(
+    values: string[],
+    columnMap: ColumnMap,
+    enforcer: PolicyEnforcer | undefined,
+): Pick<ListQuery, 'columns' | 'selection'> {
+    const columns: Record<string, true> = {};
+    const selection: Record<string, AnyColumn> = {};
+    const names = values.flatMap(value => value.split(',')).map(name => name.trim()).filter(name => name !== '');
+
+    for (const name of names) {
+        const resolved = resolveColumnPath(columnMap, name);
+        if (!resolved) {
+            throw new QueryParameterError(`Unknown field '${name}'.`, 'fields');
+        }
+        if (resolved.relations.length > 0) {
+            throw new QueryParameterError(`Cannot select '${name}': it is a column of a related table.`, 'fields');
+        }
+        enforcer?.enforceColumn(name);
+
+        selection[name] = resolved.column;
+        columns[propertyNameOf(resolved.column)] = true;
+    }
+    return { columns, selection };
+}
+
+/**
+ * The property name of a column in its table (which `findMany` selects by), e.g. `createdAt` for `created_at`.
+ */
+function propertyNameOf(column: AnyColumn): string {
+    const entry = Object.entries(getTableColumns(column.table)).find(([, tableColumn]) => tableColumn === column);
+    return entry ? entry[0] : column.name;
+}
@@ -0,0 +1,85 @@
+import { AnyColumn, getTableColumns, SQL, sql, Table } from "drizzle-orm";
+import type { ColumnMap } from "./generator";
+
+/**
+ * A related table reachable from a ColumnMap, created with `relation()`.
+ * Filters on its columns are written as dotted paths (e.g., "organization.name") and generated as
+ * `exists (select 1 from <table> where <on> and <condition>)`, so the caller's query needs no joins.
+ */
+export class RelationMapping {
+    /**
+     * @param table The related table.
+     * @param on The correlation condition linking it to the outer table (e.g., `eq(organizations.id, users.organizationId)`).
+     * @param columns The related table's columns (and further relations) that filters may refer to.
+     */
+    constructor(public table: Table, public on: SQL, public columns: ColumnMap) {}
+}
+
+/**
+ * Describes a related table for use in a ColumnMap.
+ *
+ * Example:
+ * ```ts
+ * const columnMap = {
+ *     name: users.name,
+ *     organization: relation(organizations, eq(organizations.id, users.organizationId)),
+ * };
+ * // eq("organization.name", "Acme")
+ * ```
+ *
+ * @param table The related table.
+ * @param on The condition correlating a row of `table` with the outer row.
+ * @param columns The columns filters may refer to. Defaults to every column of `table`, keyed by property name.
+ */
+export function relation(table: Table, on: SQL, columns?: ColumnMap): RelationMapping {
+    return new RelationMapping(table, on, columns ?? getTableColumns(table));
+}
+
+/**
+ * A column found through a ColumnMap, with the relations (outermost first) that lead to it.
+ */
+export interface ResolvedColumn {
+    column: AnyColumn;
+    relations: RelationMapping[];
+}
+
+/**
+ * Resolves a column name or dotted path (e.g., "organization.owner.email") against a ColumnMap.
+ * Keys containing dots are matched as a whole first.
+ *
+ * @returns The column and the relations leading to it, or undefined if the path does not name a column.
+ */
+export function resolveColumnPath(columnMap: ColumnMap, path: string): ResolvedColumn | undefined {
+    const relations: RelationMapping[] = [];
+    let map = columnMap;
+    let rest = path;
+
+    while (true) {
+        const entry = map[rest];
+        if (entry !== undefined) {
+            return entry instanceof RelationMapping ? undefined : { column: entry, relations };
+        }
+
+        const dotIndex = rest.indexOf('.');
+        if (dotIndex === -1) {
+            return undefined;
+        }
+        const next = map[rest.substring(0, dotIndex)];
+        if (!(next instanceof RelationMapping)) {
+            return undefined;
+        }
+        relations.push(next);
+        map = next.columns;
+        rest = rest.substring(dotIndex + 1);
+    }
+}
+
+/**
+ * Wraps a condition on related columns in nested EXISTS subqueries, outermost relation first.
+ */
+export function wrapInRelations(relations: RelationMapping[], condition: SQL): SQL {
+    return relations.reduceRight(
+        (inner, { table, on }) => sql`exists (select 1 from ${table} where (${on}) and (${inner}))`,
+        condition,
+    );
+}
@@ -0,0 +1,271 @@
+import { ArrayLiteral, ASTNode, CallExpression, ColumnReference, Program, StringLiteral } from "./ast";
+import { ParserError } from "./diagnostics";
+import { escapeLikePattern } from "./operators";
+import { ParserOptions } from "./parser";
+import { PolicyViolationError } from "./policy";
+
+/**
+ * Maps RSQL/FIQL comparison operators to the operator they produce.
+ * `==` and `!=` with a `*` wildcard in the value become like / notLike instead.
+ */
+const COMPARISON_OPERATORS: Record<string, string> = {
+    '==': 'eq',
+    '!=': 'ne',
+    '=lt=': 'lt',
+    '<': 'lt',
+    '=le=': 'lte',
+    '<=': 'lte',
+    '=gt=': 'gt',
+    '>': 'gt',
+    '=ge=': 'gte',
+    '>=': 'gte',
+    '=in=': 'inArray',
+    '=out=': 'notInArray',
+};
+
+/**
+ * Characters that cannot appear in unquoted selectors and values.
+ */
+const RESERVED = /["'();,=!~<>\s]/;
+
+const OPERATOR = /^(==|!=|<=|>=|<|>|=[A-Za-z]*=)/;
+
+/**
+ * Translates an RSQL/FIQL query (e.g., `age=gt=25;name==Bob`) into a Program.
+ *
+ * `;` (or `and`) binds tighter than `,` (or `or`); parentheses group. Values are strings, so they rely on
+ * value coercion to match number, boolean and date columns. A `*` in a `==` or `!=` value is a wildcard.
+ * Dotted selectors such as `organization.name` address related tables.
+ *
+ * @param query The RSQL query.
+ * @param options `maxDepth` limits the nesting of parentheses, as for the Parser.
+ * @throws ParserError for syntax errors and unsupported operators, with the span of the offending input.
+ */
+export function programFromRSQL(query: string, options: Pick<ParserOptions, 'maxDepth'> = {}): Program {
+    return new RSQLParser(query, options).parse();
+}
+
+/**
+ * A recursive-descent parser for RSQL, reading the input character by character.
+ * Nodes get the spans of the input they came from.
+ */
+class RSQLParser {
+    private input: string;
+    private maxDepth: number | undefined;
+    private position = 0;
+    private depth = 0; // The current nesting depth of parentheses
+
+    constructor(input: string, options: Pick<ParserOptions, 'maxDepth'>) {
+        this.input = input;
+        this.maxDepth = options.maxDepth;
+    }
+
+    public parse(): Program {
+        const expression = this.parseOr();
+        this.skipWhitespace();
+        if (this.position < this.input.length) {
+            throw this.error(`Unexpected '${this.input[this.position]}' at position ${this.position}. Expected ',', ';' or end of input.`);
+        }
+        return { kind: 'Program', expression, start: expression.start!, end: expression.end! };
+    }
+
+    private parseOr(): CallExpression {
+        return this.parseLogical(',', 'or', () => this.parseAnd());
+    }
+
+    private parseAnd(): CallExpression {
+        return this.parseLogical(';', 'and', () => this.parseConstraint());
+    }
+
+    /**
+     * Parses operands separated by the given symbol or keyword; a single operand is returned as is.
+     */
+    private parseLogical(symbol: string, keyword: 'and' | 'or', parseOperand: () => CallExpression): CallExpression {
+        const operands = [parseOperand()];
+        while (this.matchSeparator(symbol, keyword)) {
+            operands.push(parseOperand());
+        }
+        return operands.length === 1
+            ? operands[0]!
+            : withSpan({ kind: 'CallExpression', functionName: keyword, args: operands }, operands[0]!.start!, operands[operands.length - 1]!.end!);
+    }
+
+    /**
+     * Consumes a logical separator: the symbol, or the keyword surrounded by whitespace.
+     */
+    private matchSeparator(symbol: string, keyword: string): boolean {
+        const start = this.position;
+        this.skipWhitespace();
+        if (this.input[this.position] === symbol) {
+            this.position++;
+            return true;
+        }
+        const match = /^(and|or)\s/i.exec(this.input.substring(this.position));
+        if (this.position > start && match && match[1]!.toLowerCase() === keyword) {
+            this.position += match[1]!.length;
+            return true;
+        }
+        this.position = start;
+        return false;
+    }
+
+    private parseConstraint(): CallExpression {
+        this.skipWhitespace();
+        if (this.input[this.position] !== '(') {
+            return this.parseComparison();
+        }
+
+        const openPosition = this.position++;
+        const expression = this.nested(openPosition, () => this.parseOr());
+        this.skipWhitespace();
+        if (this.input[this.position] !== ')') {
+            throw this.error(`Expected ')' to close the group started at position ${openPosition}.`);
+        }
+        this.position++;
+        return expression;
+    }
+
+    /**
+     * Parses a comparison: a selector, an operator and one value or a parenthesized list of values.
+     */
+    private parseComparison(): CallExpression {
+        const selectorStart = this.position;
+        const selector = this.readUnreserved();
+        if (!selector) {
+            throw this.error(`Unexpected '${this.input[this.position] ?? 'end of input'}' at position ${this.position}. Expected a selector or '('.`);
+        }
+        const column: ColumnReference = withSpan({ kind: 'ColumnReference', name: selector }, selectorStart, this.position);
+
+        const operatorStart = this.position;
+        const operator = OPERATOR.exec(this.input.substring(this.position))?.[0];
+        if (!operator) {
+            throw this.error(`Expected a comparison operator after '${selector}' at position ${this.position}.`);
+        }
+        this.position += operator.length;
+        const functionName = COMPARISON_OPERATORS[operator];
+        if (!functionName) {
+            throw new ParserError(`Unsupported RSQL operator '${operator}'.`, undefined, 'UNEXPECTED_TOKEN', { start: operatorStart, end: this.position });
+        }
+
+        const argument = this.parseArgument();
+        const end = this.position;
+        if (functionName === 'inArray' || functionName === 'notInArray') {
+            const list: ArrayLiteral = argument.kind === 'ArrayLiteral'
+                ? argument
+                : withSpan({ kind: 'ArrayLiteral', elements: [argument] }, argument.start!, argument.end!);
+            return withSpan({ kind: 'CallExpression', functionName, args: [column, list] }, selectorStart, end);
+        }
+
+        if (argument.kind === 'ArrayLiteral') {
+            throw new ParserError(`'${operator}' expects a single value.`, undefined, 'UNEXPECTED_TOKEN', { start: argument.start!, end });
+        }
+        // `*` is a wildcard in equality comparisons.
+        if ((functionName === 'eq' || functionName === 'ne') && argument.value.includes('*')) {
+            const pattern = argument.value.split('*').map(escapeLikePattern).join('%');
+            return withSpan({
+                kind: 'CallExpression',
+                functionName: functionName === 'eq' ? 'like' : 'notLike',
+                args: [column, { ...argument, value: pattern }],
+            }, selectorStart, end);
+        }
+        return withSpan({ kind: 'CallExpression', functionName, args: [column, argument] }, selectorStart, end);
+    }
+
+    /**
+     * Parses a single value or a parenthesized, comma-separated list of values.
+     */
+    private parseArgument(): StringLiteral | ArrayLiteral {
+        if (this.input[this.position] !== '(') {
+            return this.parseValue();
+        }
+
+        const openPosition = this.position++;
+        const elements = [this.parseValue()];
+        this.skipWhitespace();
+        while (this.input[this.position] === ',') {
+            this.position++;
+            elements.push(this.parseValue());
+            this.skipWhitespace();
+        }
+        if (this.input[this.position] !== ')') {
+            throw this.error(`Expected ')' to close the list started at position ${openPosition}.`);
+        }
+        this.position++;
+        return withSpan({ kind: 'ArrayLiteral', elements }, openPosition, this.position);
+    }
+
+    /**
+     * Parses a value: a single- or double-quoted string (with backslash escapes) or an unquoted string.
+     */
+    private parseValue(): StringLiteral {
+        this.skipWhitespace();
+        const start = this.position;
+        const quote = this.input[start];
+        if (quote !== '"' && quote !== "'") {
+            const value = this.readUnreserved();
+            if (!value) {
+                throw this.error(`Unexpected '${this.input[this.position] ?? 'end of input'}' at position ${this.position}. Expected a value.`);
+            }
+            return withSpan({ kind: 'StringLiteral', value }, start, this.position);
+        }
+
+        let value = '';
+        this.position++;
+        while (this.position < this.input.length && this.input[this.position] !== quote) {
+            if (this.input[this.position] === '\\' && this.position + 1 < this.input.length) {
+                this.position++;
+            }
+            value += this.input[this.position];
+            this.position++;
+        }
+        if (this.position >= this.input.length) {
+            throw new ParserError(`Unclosed string literal starting at position ${start}`, undefined, 'UNCLOSED_STRING', { start, end: this.input.length });
+        }
+        this.position++; // Consume the closing quote
+        return withSpan({ kind: 'StringLiteral', value }, start, this.position);
+    }
+
+    private readUnreserved(): string {
+        const start = this.position;
+        while (this.position < this.input.length && !RESERVED.test(this.input[this.position]!)) {
+            this.position++;
+        }
+        return this.input.substring(start, this.position);
+    }
+
+    private skipWhitespace(): void {
+        while (this.position < this.input.length && /\s/.test(this.input[this.position]!)) {
+            this.position++;
+        }
+    }
+
+    /**
+     * Runs a parse step one nesting level deeper, enforcing `maxDepth`.
+     */
+    private nested<T>(position: number, parseStep: () => T): T {
+        if (this.maxDepth !== undefined && this.depth >= this.maxDepth) {
+            const error = new PolicyViolationError(`Filter exceeds the maximum nesting depth of ${this.maxDepth}.`, 'MAX_DEPTH_EXCEEDED');
+            error.span = { start: position, end: position + 1 };
+            throw error;
+        }
+        this.depth++;
+        try {
+            return parseStep();
+        } finally {
+            this.depth--;
+        }
+    }
+
+    /**
+     * Creates an error pointing at the character at the current position.
+     */
+    private error(message: string): ParserError {
+        return new ParserError(message, undefined, 'UNEXPECTED_TOKEN', { start: this.position, end: Math.min(this.position + 1, this.input.length) });
+    }
+}
+
+function withSpan<T extends ASTNode>(node: T, start: number, end: number): T {
+    node.start = start;
+    node.end = end;
+    return node;
+}
@@ -0,0 +1,212 @@
+import { AnyColumn, and, eq, gt, isNotNull, isNull, lt, or, SQL, sql } from "drizzle-orm";
+import { DrizzleFilter, LiteralValue, SortKey, SortProgram } from "./ast";
+import { CoercedValue, coerceValue } from "./coercion";
+import { ParserError, spanOf } from "./diagnostics";
+import { ColumnMap, FilterGeneratorOptions } from "./generator";
+import { Lexer, Token, TokenType } from "./lexer";
+import { COLUMN_KEYWORD } from "./parser";
+import { resolveColumnPath } from "./relations";
+
+/**
+ * The sort values of the last row of a page, keyed by the column names of the sort string (see SortGenerator.keyset).
+ */
+export type KeysetCursor = Record<string, CoercedValue | undefined>;
+
+/**
+ * Options controlling how the SortGenerator builds keyset filters.
+ */
+export type SortGeneratorOptions = Pick<FilterGeneratorOptions, 'coerceValues'>;
+
+const NULLS_OPTIONS: Record<string, 'first' | 'last'> = { nullsfirst: 'first', nullslast: 'last' };
+
+/**
+ * The SortParser parses sort strings: a comma-separated list of `asc(column)` and `desc(column)` keys, each optionally
+ * saying where NULLs go (`desc(createdAt, nullsLast)`). A bare column is sorted ascending. Columns are written
+ * like in filters: `name`, `"name"` or `col("name")`.
+ *
+ * Example: `desc(createdAt, nullsLast), asc("name"), id`
+ */
+export class SortParser {
+    private lexer: Lexer;
+    private lookahead: Token;
+    private previousToken: Token | null = null;
+
+    constructor(lexer: Lexer) {
+        this.lexer = lexer;
+        this.lookahead = lexer.nextToken();
+    }
+
+    /**
+     * Parses the sort string. An empty string has no keys.
+     *
+     * @throws ParserError if the sort string does not match the grammar.
+     */
+    public parse(): SortProgram {
+        const start = this.lookahead.position;
+        const keys: SortKey[] = [];
+        if (this.lookahead.type !== TokenType.EOF) {
+            keys.push(this.parseKey());
+            while (this.match(TokenType.Comma)) {
+                this.consume(TokenType.Comma);
+                keys.push(this.parseKey());
+            }
+        }
+
+        if (this.lookahead.type !== TokenType.EOF) {
+            throw new ParserError(
+                `Unexpected token '${this.lookahead.value}' at position ${this.lookahead.position}. Expected ',' or end of input.`,
+                this.lookahead,
+            );
+        }
+        return { kind: 'SortProgram', keys, start, end: this.previousToken?.end ?? start };
+    }
+
+    /**
+     * Parses a key: `asc(column)`, `desc(column, nullsFirst)` or a bare column.
+     */
+    private parseKey(): SortKey {
+        const start = this.lookahead.position;
+        const direction = this.lookahead.value.toLowerCase();
+        const isCall = this.match(TokenType.Identifier) && this.lexer.peekToken().type === TokenType.LParen;
+        if (!isCall || direction === COLUMN_KEYWORD) {
+            return { kind: 'SortKey', column: this.parseColumn(), direction: 'asc', start, end: this.previousToken!.end };
+        }
+        if (direction !== 'asc' && direction !== 'desc') {
+            throw new ParserError(`Unknown sort direction '${this.lookahead.value}'. Expected 'asc' or 'desc'.`, this.lookahead);
+        }
+
+        this.consume(TokenType.Identifier);
+        this.consume(TokenType.LParen);
+        const key: SortKey = { kind: 'SortKey', column: this.parseColumn(), direction };
+        if (this.match(TokenType.Comma)) {
+            this.consume(TokenType.Comma);
+            const option = this.consume(TokenType.Identifier, `Unexpected token '${this.lookahead.value}'. Expected 'nullsFirst' or 'nullsLast'.`);
+            const nulls = NULLS_OPTIONS[option.value.toLowerCase()];
+            if (!nulls) {
+                throw new ParserError(`Unknown sort option '${option.value}'. Expected 'nullsFirst' or 'nullsLast'.`, option);
+            }
+            key.nulls = nulls;
+        }
+        this.consume(TokenType.RParen, `Unexpected token '${this.lookahead.value}'. Expected ')' to close '${direction}('.`);
+        return { ...key, start, end: this.previousToken!.end };
+    }
+
+    /**
+     * Parses a column name: an identifier, a string or `col("name")`.
+     */
+    private parseColumn(): string {
+        if (this.match(TokenType.StringLiteral)) {
+            return this.consume(TokenType.StringLiteral).value;
+        }
+        const name = this.consume(TokenType.Identifier, `Unexpected token '${this.lookahead.value}' (type ${this.lookahead.type}). Expected a column name.`);
+        if (name.value.toLowerCase() !== COLUMN_KEYWORD || !this.match(TokenType.LParen)) {
+            return name.value;
+        }
+        this.consume(TokenType.LParen);
+        const quoted = this.consume(TokenType.StringLiteral, `Unexpected token '${this.lookahead.value}'. Expected the quoted column name of '${COLUMN_KEYWORD}(...)'.`);
+        this.consume(TokenType.RParen, `Unexpected token '${this.lookahead.value}'. Expected ')' to close '${COLUMN_KEYWORD}('.`);
+        return quoted.value;
+    }
+
+    private match(type: TokenType): boolean {
+        return this.lookahead.type === type;
+    }
+
+    private consume(expectedType: TokenType, errorMessage?: string): Token {
+        const token = this.lookahead;
+        if (token.type !== expectedType) {
+            throw new ParserError(errorMessage || `Unexpected token '${token.value}' (type ${token.type}). Expected ${expectedType}.`, token);
+        }
+        this.previousToken = token;
+        this.lookahead = this.lexer.nextToken();
+        return token;
+    }
+}
+
+/**
+ * The SortGenerator resolves a parsed sort string through a ColumnMap into Drizzle `orderBy` expressions,
+ * and builds keyset-pagination filters from the sort values of the last row of a page.
+ */
+export class SortGenerator {
+    private columnMap: ColumnMap;
+    private options: SortGeneratorOptions;
+
+    constructor(columnMap: ColumnMap, options: SortGeneratorOptions = {}) {
+        this.columnMap = columnMap;
+        this.options = options;
+    }
+
+    /**
+     * Generates the `orderBy` expressions, e.g. `db.select().from(users).orderBy(...generator.generate(sort))`.
+     * Keys without a NULLs option leave NULLs in the database's default order.
+     *
+     * @throws ParserError if a column is unknown or on a related table.
+     */
+    public generate(sort: SortProgram): SQL[] {
+        return sort.keys.map(key => {
+            const column = this.resolveColumn(key);
+            const direction = sql.raw(key.direction);
+            return key.nulls ? sql`${column} ${direction} nulls ${sql.raw(key.nulls)}` : sql`${column} ${direction}`;
+        });
+    }
+
+    /**
+     * Builds the filter selecting the rows after a cursor in sort order, for keyset pagination: with the sort
+     * `desc(createdAt), asc(id)` and the cursor `{ createdAt, id }` of the last row of a page, the next page is
+     * `where(or(lt(createdAt, cursor.createdAt), and(eq(createdAt, cursor.createdAt), gt(id, cursor.id))))`.
+     *
+     * The last key should be unique (e.g., the primary key), or rows sharing all sort values may be skipped.
+     * NULL cursor values are supported, and NULLs are only checked for nullable columns. Keys without a NULLs option
+     * assume PostgreSQL's order (NULLs are largest: last for `asc`, first for `desc`), so give one explicitly on
+     * databases that sort NULLs first.
+     * Cursor values are coerced to the data types of their columns.
+     *
+     * @throws ParserError if a column is unknown or on a related table, or if the cursor misses a sort column ('INVALID_CURSOR').
+     */
+    public keyset(sort: SortProgram, cursor: KeysetCursor): DrizzleFilter {
+        const conditions: SQL[] = [];
+        const equalities: SQL[] = [];
+        for (const key of sort.keys) {
+            const column = this.resolveColumn(key);
+            const value = this.cursorValue(key, column, cursor);
+            const after = afterValue(key, column, value);
+            if (after) {
+                conditions.push(and(...equalities, after)!);
+            }
+            equalities.push(value === null ? isNull(column) : eq(column, value));
+        }
+        // No row sorts after the cursor (e.g., it is NULL in the only key and NULLs come last).
+        return conditions.length === 0 ? sql`false` : or(...conditions);
+    }
+
+    private cursorValue(key: SortKey, column: AnyColumn, cursor: KeysetCursor): CoercedValue {
+        const value = cursor[key.column];
+        if (value === undefined) {
+            throw new ParserError(`The cursor has no value for sort column '${key.column}'.`, undefined, 'INVALID_CURSOR', spanOf(key));
+        }
+        return this.options.coerceValues === false || typeof value === 'bigint' ? value : coerceValue(value as LiteralValue, column, key);
+    }
+
+    private resolveColumn(key: SortKey): AnyColumn {
+        const resolved = resolveColumnPath(this.columnMap, key.column);
+        if (!resolved) {
+            throw new ParserError(`Unknown column '${key.column}'.`, undefined, 'UNKNOWN_COLUMN', spanOf(key));
+        }
+        if (resolved.relations.length > 0) {
+            throw new ParserError(`Cannot sort by '${key.column}': it is a column of a related table.`, undefined, 'UNSORTABLE_COLUMN', spanOf(key));
+        }
+        return resolved.column;
+    }
+}
+
+/**
+ * The condition on a single key for rows sorting after the value, or undefined if none can.
+ */
+function afterValue(key: SortKey, column: AnyColumn, value: CoercedValue): SQL | undefined {
+    const nullsLast = (key.nulls ?? (key.direction === 'asc' ? 'last' : 'first')) === 'last';
+    if (value === null) {
+        return nullsLast ? undefined : isNotNull(column);
+    }
+    const beyond = key.direction === 'asc' ? gt(column, value) : lt(column, value);
+    return nullsLast && !column.notNull ? or(beyond, isNull(column)) : beyond;
+}
@@ -0,0 +1,191 @@
+import { is, Placeholder as SQLPlaceholder, sql } from "drizzle-orm";
+import { Argument, ASTNode, DrizzleFilter, LiteralValue, Placeholder, Program } from "./ast";
+import { DiagnosticCode, ParserError, spanOf } from "./diagnostics";
+import { ColumnMap, FilterGenerator, FilterGeneratorOptions, FilterParams, FilterParamValue } from "./generator";
+import { createOperatorRegistry, ParameterKind, parameterKindAt } from "./operators";
+import { FilterPolicy, PolicyViolationError } from "./policy";
+
+/**
+ * The values a FilterTemplate is bound with: one per placeholder name, without the '$'.
+ */
+export type TemplateParams<TName extends string> = { [K in TName]: FilterParamValue };
+
+/**
+ * Options a FilterTemplate generates its filters with.
+ */
+export interface FilterTemplateOptions extends Omit<FilterGeneratorOptions, 'params'> {
+    /** Checked again for the bound values: `maxArrayLength` for lists and `maxStringLength` for strings. */
+    policy?: FilterPolicy;
+}
+
+/**
+ * Thrown when the values bound to a FilterTemplate do not match its placeholders.
+ * The offending placeholder node is attached when there is one.
+ */
+export class TemplateParameterError extends ParserError {
+    constructor(
+        message: string,
+        code: Extract<DiagnosticCode, 'MISSING_PARAMETER' | 'UNKNOWN_PARAMETER' | 'INVALID_PARAMETER'>,
+        public node?: ASTNode,
+    ) {
+        super(message, undefined, code, spanOf(node));
+        this.name = 'TemplateParameterError';
+    }
+}
+
+/**
+ * A filter with named placeholders (e.g., `and(eq(tenantId, $tenant), gte(createdAt, $since))`) that is parsed and
+ * checked once, and then bound to values per request. Values never go through the filter string: they are coerced
+ * like literals and passed to Drizzle as query parameters, so they cannot change the structure of the filter.
+ *
+ * Create templates with compileFilterTemplate.
+ */
+export class FilterTemplate<TName extends string = string> {
+    /** Each placeholder of the template and whether it takes a single value or a list (e.g., for inArray). */
+    public readonly placeholders: ReadonlyMap<string, 'value' | 'array'>;
+    private program: Program;
+    private columnMap: ColumnMap;
+    private options: FilterTemplateOptions;
+    private nodes = new Map<string, Placeholder>();
+
+    /**
+     * @param program The checked Program of the template.
+     * @param columnMap The ColumnMap to generate filters with.
+     * @param options The options to generate filters with.
+     * @throws ParserError if a placeholder stands for something other than a value or a list (e.g., a column).
+     */
+    constructor(program: Program, columnMap: ColumnMap, options: FilterTemplateOptions = {}) {
+        this.program = program;
+        this.columnMap = columnMap;
+        this.options = options;
+        this.placeholders = this.collectPlaceholders(program);
+    }
+
+    /**
+     * Generates the filter with the given values.
+     *
+     * @throws TemplateParameterError if a value is missing, unknown or does not fit its placeholder,
+     * PolicyViolationError if a value breaks the policy's size limits, and CoercionError as for literals.
+     */
+    public bind(params: TemplateParams<TName>): DrizzleFilter {
+        this.checkParams(params);
+        return this.generate(params);
+    }
+
+    /**
+     * Generates the filter with a Drizzle placeholder (`sql.placeholder(name)`) for every placeholder, for prepared
+     * statements: `db.select().from(users).where(template.prepare()).prepare('q')`, executed with the values.
+     * Prepared values are not coerced.
+     *
+     * @throws ParserError (INVALID_PARAMETER) if a placeholder stands for a list of values (e.g., of inArray): Drizzle
+     * would write it as a single parameter (`in $1`), which is invalid SQL. Arrays of array operators can be prepared.
+     */
+    public prepare(): DrizzleFilter {
+        return this.generate(Object.fromEntries([...this.placeholders.keys()].map(name => [name, sql.placeholder(name)])));
+    }
+
+    private generate(params: FilterParams): DrizzleFilter {
+        return new FilterGenerator(this.columnMap, { ...this.options, params }).generate(this.program) as DrizzleFilter;
+    }
+
+    private checkParams(params: FilterParams): void {
+        const missing = [...this.placeholders.keys()].filter(name => params[name] === undefined);
+        if (missing.length > 0) {
+            throw new TemplateParameterError(
+                `Missing value for placeholder(s) ${missing.map(name => `'$${name}'`).join(', ')}.`,
+                'MISSING_PARAMETER',
+                this.nodes.get(missing[0]!),
+            );
+        }
+
+        const unknown = Object.keys(params).filter(name => !this.placeholders.has(name));
+        if (unknown.length > 0) {
+            throw new TemplateParameterError(
+                `Unknown parameter(s) ${unknown.map(name => `'${name}'`).join(', ')}; the template has ${describeNames([...this.placeholders.keys()])}.`,
+                'UNKNOWN_PARAMETER',
+            );
+        }
+
+        this.placeholders.forEach((kind, name) => this.checkValue(name, kind, params[name]!));
+    }
+
+    private checkValue(name: string, kind: 'value' | 'array', value: FilterParamValue): void {
+        const node = this.nodes.get(name)!;
+        if (is(value, SQLPlaceholder)) {
+            return;
+        }
+
+        const elements = Array.isArray(value) ? value : [value];
+        if (Array.isArray(value) !== (kind === 'array') || !elements.every(isLiteralValue)) {
+            throw new TemplateParameterError(
+                `Placeholder '$${name}' expects ${kind === 'array' ? 'a list of values' : 'a single value'} (strings, numbers, booleans, null or dates).`,
+                'INVALID_PARAMETER',
+                node,
+            );
+        }
+
+        const { maxArrayLength, maxStringLength } = this.options.policy ?? {};
+        if (maxArrayLength !== undefined && elements.length > maxArrayLength && kind === 'array') {
+            throw new PolicyViolationError(
+                `The list for '$${name}' has ${elements.length} elements; the maximum is ${maxArrayLength}.`,
+                'MAX_ARRAY_LENGTH_EXCEEDED',
+                node,
+            );
+        }
+        const long = elements.find((element): element is string => typeof element === 'string' && maxStringLength !== undefined && element.length > maxStringLength);
+        if (long !== undefined) {
+            throw new PolicyViolationError(
+                `A string for '$${name}' is ${long.length} characters long; the maximum is ${maxStringLength}.`,
+                'MAX_STRING_LENGTH_EXCEEDED',
+                node,
+            );
+        }
+    }
+
+    /**
+     * Finds every placeholder and the kind of parameter it stands for, from the signature of the operator it is passed to.
+     */
+    private collectPlaceholders(program: Program): Map<string, 'value' | 'array'> {
+        const operators = this.options.operators ?? createOperatorRegistry();
+        const placeholders = new Map<string, 'value' | 'array'>();
+
+        const visit = (node: Argument): void => {
+            if (node.kind !== 'CallExpression') {
+                return;
+            }
+            const signature = operators.get(node.functionName)?.signature;
+            node.args.forEach((arg, index) => {
+                if (arg.kind !== 'Placeholder') {
+                    visit(arg);
+                    return;
+                }
+
+                const kind = signature && parameterKindOf(parameterKindAt(signature, index));
+                const previous = placeholders.get(arg.name);
+                if (!kind || (previous && previous !== kind)) {
+                    const reason = !kind ? 'can only stand for a value or a list' : 'cannot stand for both a value and a list';
+                    throw new ParserError(`Placeholder '$${arg.name}' ${reason}.`, undefined, 'TYPE_MISMATCH', spanOf(arg));
+                }
+                placeholders.set(arg.name, kind);
+                if (!this.nodes.has(arg.name)) {
+                    this.nodes.set(arg.name, arg);
+                }
+            });
+        };
+
+        visit(program.expression);
+        return placeholders;
+    }
+}
+
+function parameterKindOf(kind: ParameterKind | undefined): 'value' | 'array' | undefined {
+    return kind === 'value' || kind === 'array' ? kind : undefined;
+}
+
+function isLiteralValue(value: unknown): value is LiteralValue {
+    return value === null || value instanceof Date || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function describeNames(names: string[]): string {
+    return names.length === 0 ? 'no placeholders' : `placeholder(s) ${names.map(name => `'$${name}'`).join(', ')}`;
+}
@@ -0,0 +1,167 @@
+import type { BuiltInOperatorName } from "./operators";
+import type { RelationMapping } from "./relations";
+
+/*
+ * Compile-time checking of literal filter strings.
+ *
+ * The types below tokenize and parse a string literal type with the prefix grammar and check the operator names
+ * and column names it uses. They only reject what they fully understand: input they cannot parse (e.g., infix
+ * syntax), literals too large to check and strings typed as plain `string` are accepted and left to the runtime checks.
+ */
+
+type Whitespace = ' ' | '\n' | '\t' | '\r';
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+type Letter =
+    | 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm'
+    | 'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z'
+    | Uppercase<'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm'>
+    | Uppercase<'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z'>;
+type IdentifierStart = Letter | '_';
+type IdentifierPart = IdentifierStart | Digit;
+type Punctuation = '(' | ')' | '[' | ']' | ',';
+
+type Token = ['id', string] | ['str', string] | ['num'] | ['ph', string] | [Punctuation];
+
+/** The input could not be parsed at the type level; it is left to the runtime checks. */
+type Unparsed = { unparsed: true };
+
+/** The input is invalid; the message is shown as the expected type of the filter string. */
+type Invalid<TMessage extends string> = { error: TMessage };
+
+type ReadIdentifier<S extends string, TValue extends string> =
+    S extends `${infer Char extends IdentifierPart}${infer Rest}` ? ReadIdentifier<Rest, `${TValue}${Char}`>
+    // A dot continues the identifier only when another segment follows it (e.g., "organization.name").
+    : S extends `.${infer Char extends IdentifierStart}${infer Rest}` ? ReadIdentifier<Rest, `${TValue}.${Char}`>
+    : [TValue, S];
+
+type ReadPlaceholderName<S extends string, TValue extends string> =
+    S extends `${infer Char extends IdentifierPart}${infer Rest}` ? ReadPlaceholderName<Rest, `${TValue}${Char}`> : [TValue, S];
+
+/** Literal keywords are case-insensitive; they are tokenized in lower case so that the parser matches them in any case. */
+type Keyword<TValue extends string> = Lowercase<TValue> extends 'true' | 'false' | 'null' | 'date' ? Lowercase<TValue> : TValue;
+
+type TrimStart<S extends string> = S extends `${Whitespace}${infer Rest}` ? TrimStart<Rest> : S;
+
+type ReadNumber<S extends string> = S extends `${Digit | '.'}${infer Rest}` ? ReadNumber<Rest> : S;
+
+type ReadString<S extends string, TValue extends string = ''> =
+    S extends `${infer Chunk}"${infer Rest}`
+        // A quote preceded by a single backslash is escaped and does not end the string, nor does a doubled quote.
+        ? Chunk extends `${string}\\` ? Chunk extends `${string}\\\\` ? EndString<`${TValue}${Chunk}`, Rest> : ReadString<Rest, `${TValue}${Chunk}"`>
+        : EndString<`${TValue}${Chunk}`, Rest>
+        : Unparsed;
+
+type EndString<TValue extends string, Rest extends string> = Rest extends `"${infer More}` ? ReadString<More, `${TValue}"`> : [TValue, Rest];
+
+/**
+ * The most tokenizer steps (tokens and whitespace runs) and the deepest nesting of parentheses and brackets a literal
+ * may have. Larger literals would make the compiler give up with "Type instantiation is excessively deep", so they
+ * are left unchecked instead.
+ */
+type MaxTokenizeSteps = 600;
+type MaxNesting = 50;
+
+/** The input is too large to be checked at the type level; it is typed as a plain `string`. */
+type TooComplex = { tooComplex: true };
+
+type Nest<TChar extends Punctuation, TDepth extends unknown[]> =
+    TChar extends '(' | '[' ? [...TDepth, unknown]
+    : TChar extends ')' | ']' ? TDepth extends [unknown, ...infer Outer] ? Outer : TDepth
+    : TDepth;
+
+type Tokenize<S extends string, TTokens extends Token[] = [], TSteps extends unknown[] = [], TDepth extends unknown[] = []> =
+    TSteps['length'] extends MaxTokenizeSteps ? TooComplex
+    : TDepth['length'] extends MaxNesting ? TooComplex
+    : S extends '' ? TTokens
+    : S extends `${Whitespace}${infer Rest}` ? Tokenize<TrimStart<Rest>, TTokens, [...TSteps, unknown], TDepth>
+    : S extends `${infer Char extends Punctuation}${infer Rest}` ? Tokenize<Rest, [...TTokens, [Char]], [...TSteps, unknown], Nest<Char, TDepth>>
+    : S extends `"${infer Rest}` ? ReadString<Rest> extends [infer Value extends string, infer After extends string] ? Tokenize<After, [...TTokens, ['str', Value]], [...TSteps, unknown], TDepth> : Unparsed
+    : S extends `${infer Char extends IdentifierStart}${infer Rest}` ? ReadIdentifier<Rest, Char> extends [infer Value extends string, infer After extends string] ? Tokenize<After, [...TTokens, ['id', Keyword<Value>]], [...TSteps, unknown], TDepth> : Unparsed
+    : S extends `$${infer Char extends IdentifierStart}${infer Rest}` ? ReadPlaceholderName<Rest, Char> extends [infer Value extends string, infer After extends string] ? Tokenize<After, [...TTokens, ['ph', Value]], [...TSteps, unknown], TDepth> : Unparsed
+    : S extends `${Digit | '-'}${infer Rest}` ? Tokenize<ReadNumber<Rest>, [...TTokens, ['num']], [...TSteps, unknown], TDepth>
+    : Unparsed;
+
+/** What a check needs to know: the allowed column names and operator names. */
+interface CheckContext {
+    columns: string;
+    operators: string;
+}
+
+/** Built-in operators whose first argument is a column; quoted strings there must name a column. */
+type ColumnFirstOperator = Exclude<BuiltInOperatorName, 'and' | 'or' | 'not'>;
+
+type CheckColumn<TName extends string, C extends CheckContext, TRest extends Token[]> =
+    TName extends C['columns'] ? TRest : Invalid<`Unknown column '${TName}'.`>;
+
+type ParseCall<TTokens extends Token[], C extends CheckContext> =
+    TTokens extends [['id', infer Name extends string], ['('], ...infer Rest extends Token[]]
+        ? Name extends C['operators']
+            ? ParseArguments<Rest, C, Name extends ColumnFirstOperator ? true : false>
+            : Invalid<`Unknown operator '${Name}'.`>
+        : Unparsed;
+
+type ParseArguments<TTokens extends Token[], C extends CheckContext, TColumnFirst extends boolean> =
+    TTokens extends [[')'], ...infer Rest extends Token[]] ? Rest : ParseArgumentList<TTokens, C, TColumnFirst>;
+
+type ParseArgumentList<TTokens extends Token[], C extends CheckContext, TColumnPosition extends boolean> =
+    ParseArgument<TTokens, C, TColumnPosition> extends infer Result
+        ? Result extends [[','], ...infer Rest extends Token[]] ? ParseArgumentList<Rest, C, false>
+        : Result extends [[')'], ...infer Rest extends Token[]] ? Rest
+        : Result extends Token[] ? Unparsed
+        : Result
+        : never;
+
+type ParseArgument<TTokens extends Token[], C extends CheckContext, TColumnPosition extends boolean> =
+    TTokens extends [['str', infer Value extends string], ...infer Rest extends Token[]]
+        ? TColumnPosition extends true ? CheckColumn<Value, C, Rest> : Rest
+    : TTokens extends [['num'], ...infer Rest extends Token[]] ? Rest
+    : TTokens extends [['ph', infer Name extends string], ...infer Rest extends Token[]]
+        ? TColumnPosition extends true ? Invalid<`Placeholder '$${Name}' cannot stand for a column.`> : Rest
+    : TTokens extends [['id', 'true' | 'false' | 'null'], ...infer Rest extends Token[]] ? Rest
+    : TTokens extends [['id', 'date'], ['('], ['str', string], [')'], ...infer Rest extends Token[]] ? Rest
+    : TTokens extends [['id', 'col'], ['('], ['str', infer Name extends string], [')'], ...infer Rest extends Token[]] ? CheckColumn<Name, C, Rest>
+    : TTokens extends [['id', string], ['('], ...Token[]] ? ParseCall<TTokens, C>
+    : TTokens extends [['id', infer Name extends string], ...infer Rest extends Token[]] ? CheckColumn<Name, C, Rest>
+    : TTokens extends [['['], ...infer Rest extends Token[]] ? ParseArray<Rest>
+    : Unparsed;
+
+type ParseArray<TTokens extends Token[]> =
+    TTokens extends [[']'], ...infer Rest extends Token[]] ? Rest
+    : TTokens extends [['str', string] | ['num'] | ['id', 'true' | 'false' | 'null'], ...infer Rest extends Token[]]
+        ? Rest extends [[','], ...infer After extends Token[]] ? ParseArray<After>
+        : Rest extends [[']'], ...infer After extends Token[]] ? After
+        : Unparsed
+    : TTokens extends [['id', 'date'], ['('], ['str', string], [')'], ...infer Rest extends Token[]]
+        ? ParseArray<Rest extends [[','], ...infer After extends Token[]] ? After : Rest>
+    : Unparsed;
+
+/**
+ * The names a ColumnMap accepts: its keys, and dotted paths below keys that hold relations.
+ */
+export type ColumnPath<TColumnMap> = {
+    [K in keyof TColumnMap & string]: TColumnMap[K] extends RelationMapping ? `${K}.${string}` : K;
+}[keyof TColumnMap & string];
+
+/**
+ * Checks a filter string type. Evaluates to the string itself when it is valid (or cannot be checked), to `string`
+ * when it is too large to check (about 600 tokens, e.g. `and(...)` with 80 comparisons, or 50 nested calls), and otherwise to an error message such as `"Unknown column 'nme'."`, so that passing the string
+ * where a CheckedFilter is expected is a type error that shows the message.
+ */
+export type CheckedFilter<S extends string, TColumnMap, TOperator extends string = BuiltInOperatorName> =
+    string extends S ? S
+    : Tokenize<S> extends TooComplex ? string
+    : Tokenize<S> extends infer Tokens extends Token[]
+        ? ParseCall<Tokens, { columns: ColumnPath<TColumnMap>; operators: TOperator }> extends infer Result
+            ? Result extends Invalid<infer Message> ? Message : S
+            : S
+        : S;
+
+type PlaceholderNamesOf<TTokens extends Token[]> = TTokens[number] extends infer T ? T extends ['ph', infer Name extends string] ? Name : never : never;
+
+/**
+ * The names of the placeholders (e.g., `$tenant`) in a filter string type, without the '$'.
+ * Evaluates to `string` when the string cannot be tokenized at the type level (e.g., in infix syntax, or when it is too large).
+ */
+export type PlaceholderName<S extends string> =
+    string extends S ? string
+    : Tokenize<S> extends infer Tokens extends Token[] ? PlaceholderNamesOf<Tokens> : string;
@@ -0,0 +1,246 @@
+import { AnyColumn } from "drizzle-orm";
+import { isAggregateCall, keepsColumnType, resolveAggregateOperand } from "./aggregates";
+import { Argument, ASTNode, CallExpression, ColumnReference, LiteralValue, Program, ScalarLiteral } from "./ast";
+import { CoercionError, coerceValue } from "./coercion";
+import { DiagnosticCode, ParserError, spanOf } from "./diagnostics";
+import { ColumnMap, FilterGeneratorOptions } from "./generator";
+import { acceptsArgumentCount, createOperatorRegistry, describeArity, OperatorRegistry, OperatorSignature, parameterKindAt } from "./operators";
+import { resolveColumnPath } from "./relations";
+
+/**
+ * A problem found by the Validator. The offending AST node is attached so callers can point back at the input.
+ */
+export class ValidationError extends ParserError {
+    constructor(message: string, code: DiagnosticCode, public node?: ASTNode) {
+        super(message, undefined, code, spanOf(node));
+        this.name = 'ValidationError';
+    }
+}
+
+/**
+ * The Validator checks an AST against a ColumnMap and the signatures of the registered operators before generation.
+ * Unlike the FilterGenerator, it does not stop at the first problem: every error is collected.
+ *
+ * It reports unknown operators, unknown columns, wrong argument counts, arguments of the wrong kind
+ * (e.g., a filter where a value is expected) and values that do not fit the column's data type.
+ */
+export class Validator {
+    private columnMap: ColumnMap;
+    private options: FilterGeneratorOptions;
+    private operators: OperatorRegistry;
+    private errors: ValidationError[] = [];
+
+    /**
+     * @param columnMap The columns filters may refer to.
+     * @param options The options the AST will be generated with, so that validation mirrors generation.
+     */
+    constructor(columnMap: ColumnMap, options: FilterGeneratorOptions = {}) {
+        this.columnMap = columnMap;
+        this.options = options;
+        this.operators = options.operators ?? createOperatorRegistry();
+    }
+
+    /**
+     * Validates the given AST.
+     *
+     * @param ast The root of the AST (Program node) to check.
+     * @returns Every problem found, in source order. An empty array means the AST is valid.
+     */
+    public validate(ast: Program): ValidationError[] {
+        this.errors = [];
+        if (ast.expression) {
+            this.validateFilter(ast.expression);
+        }
+        return this.errors;
+    }
+
+    private report(message: string, code: DiagnosticCode, node: ASTNode): void {
+        this.errors.push(new ValidationError(message, code, node));
+    }
+
+    /**
+     * Validates a node that must be a filter expression.
+     */
+    private validateFilter(node: Argument): void {
+        if (node.kind !== 'CallExpression') {
+            this.report(`Expected a filter expression but got ${describeKind(node)}.`, 'TYPE_MISMATCH', node);
+            return;
+        }
+        this.validateCall(node);
+    }
+
+    private validateCall(node: CallExpression): void {
+        const signature = this.operators.get(node.functionName)?.signature;
+        if (!signature) {
+            this.report(`Unsupported Drizzle ORM function: '${node.functionName}'.`, 'UNSUPPORTED_FUNCTION', node);
+            // Still check nested filters so that their problems are reported too.
+            node.args.forEach(arg => arg.kind === 'CallExpression' && this.validateCall(arg));
+            return;
+        }
+
+        if (!acceptsArgumentCount(signature, node.args.length)) {
+            this.report(
+                `'${node.functionName}' expects ${describeArity(signature)} but got ${node.args.length}.`,
+                'ARGUMENT_COUNT',
+                node,
+            );
+        }
+
+        // The first column argument decides which type the values must have.
+        let column: AnyColumn | undefined;
+        node.args.forEach((arg, index) => {
+            const kind = parameterKindAt(signature, index);
+            switch (kind) {
+                case 'filter':
+                    this.validateFilter(arg);
+                    break;
+                case 'column': {
+                    const resolved = this.validateColumn(node, signature, arg);
+                    column ??= resolved;
+                    break;
+                }
+                case 'value':
+                    this.validateValue(node, signature, arg, column);
+                    break;
+                case 'array':
+                    this.validateArray(node, arg, column);
+                    break;
+                default:
+                    // Extra arguments were already reported as an argument count error.
+                    break;
+            }
+        });
+    }
+
+    private validateColumn(node: CallExpression, signature: OperatorSignature, arg: Argument): AnyColumn | undefined {
+        if (this.options.aggregates && isAggregateCall(arg)) {
+            return this.validateAggregate(arg);
+        }
+        // In strict mode, only column references name columns.
+        const isColumnArgument = arg.kind === 'ColumnReference' || (arg.kind === 'StringLiteral' && !this.options.strict);
+        if (!isColumnArgument) {
+            const expected = this.options.strict ? 'a column reference' : 'a column name';
+            this.report(`'${node.functionName}' expects ${expected} but got ${describeKind(arg)}.`, 'TYPE_MISMATCH', arg);
+            return undefined;
+        }
+
+        const name = arg.kind === 'ColumnReference' ? arg.name : arg.value;
+        const column = resolveColumnPath(this.columnMap, name)?.column;
+        if (!column) {
+            this.report(`Unknown column '${name}'.`, 'UNKNOWN_COLUMN', arg);
+            return undefined;
+        }
+
+        if (signature.columnDataTypes && column.dataType && !signature.columnDataTypes.includes(column.dataType)) {
+            this.report(
+                `'${node.functionName}' cannot be applied to column '${name}' of type ${column.dataType}.`,
+                'TYPE_MISMATCH',
+                arg,
+            );
+        }
+        return column;
+    }
+
+    private validateValue(node: CallExpression, signature: OperatorSignature, arg: Argument, column: AnyColumn | undefined): void {
+        // Aggregates may be compared with each other (e.g., `gt(max(price), avg(price))`).
+        if (this.options.aggregates && isAggregateCall(arg)) {
+            this.validateAggregate(arg);
+            return;
+        }
+        if (arg.kind === 'CallExpression' || arg.kind === 'ArrayLiteral') {
+            this.report(`'${node.functionName}' expects a value but got ${describeKind(arg)}.`, 'TYPE_MISMATCH', arg);
+            return;
+        }
+        // Columns are allowed as values for column-to-column comparisons.
+        if (arg.kind === 'ColumnReference') {
+            this.validateColumnReference(arg);
+            return;
+        }
+        if (arg.kind === 'StringLiteral' && !this.options.strict && resolveColumnPath(this.columnMap, arg.value)) {
+            return;
+        }
+        // Placeholder values are only known when the template is bound.
+        if (arg.kind === 'Placeholder') {
+            return;
+        }
+        if (signature.patternValues) {
+            if (arg.kind !== 'StringLiteral') {
+                this.report(`'${node.functionName}' expects a string pattern but got ${describeKind(arg)}.`, 'TYPE_MISMATCH', arg);
+            }
+            return;
+        }
+        this.validateCoercion(arg, column);
+    }
+
+    /**
+     * Checks the arguments of an aggregate operand.
+     *
+     * @returns The column values compared with the aggregate are coerced to (see keepsColumnType), if any.
+     */
+    private validateAggregate(node: CallExpression): AnyColumn | undefined {
+        const operand = resolveAggregateOperand(node, this.columnMap, this.options);
+        if ('problem' in operand) {
+            this.report(operand.problem.message, operand.problem.code, operand.problem.node);
+            return undefined;
+        }
+        return keepsColumnType(node) ? operand.column : undefined;
+    }
+
+    private validateArray(node: CallExpression, arg: Argument, column: AnyColumn | undefined): void {
+        if (arg.kind === 'Placeholder') {
+            return;
+        }
+        if (arg.kind !== 'ArrayLiteral') {
+            this.report(`'${node.functionName}' expects an array literal but got ${describeKind(arg)}.`, 'TYPE_MISMATCH', arg);
+            return;
+        }
+        arg.elements.forEach(element => this.validateCoercion(element, column));
+    }
+
+    private validateColumnReference(node: ColumnReference): void {
+        if (!resolveColumnPath(this.columnMap, node.name)) {
+            this.report(`Unknown column '${node.name}'.`, 'UNKNOWN_COLUMN', node);
+        }
+    }
+
+    /**
+     * Checks that a literal can be coerced to the column's data type, as the FilterGenerator would.
+     */
+    private validateCoercion(node: ScalarLiteral, column: AnyColumn | undefined): void {
+        if (!column || this.options.coerceValues === false) {
+            return;
+        }
+        const value: LiteralValue = node.kind === 'DateLiteral' ? new Date(node.value) : node.value;
+        try {
+            coerceValue(value, column, node);
+        } catch (e) {
+            if (!(e instanceof CoercionError)) {
+                throw e;
+            }
+            this.report(e.message, 'COERCION_FAILED', node);
+        }
+    }
+}
+
+function describeKind(node: Argument): string {
+    switch (node.kind) {
+        case 'CallExpression':
+            return `a filter expression '${node.functionName}(...)'`;
+        case 'ArrayLiteral':
+            return 'an array literal';
+        case 'ColumnReference':
+            return `a column reference '${node.name}'`;
+        case 'Placeholder':
+            return `a placeholder '$${node.name}'`;
+        case 'StringLiteral':
+            return 'a string literal';
+        case 'NumberLiteral':
+            return 'a number literal';
+        case 'BooleanLiteral':
+            return 'a boolean literal';
+        case 'NullLiteral':
+            return 'a null literal';
+        case 'DateLiteral':
+            return 'a date literal';
+    }
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { eq, SQL } from "drizzle-orm";
+import { integer, numeric, PgDialect, pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
+import { Lexer } from "../src/lexer";
+import { Parser } from "../src/parser";
+import { relation } from "../src/relations";
+import { Validator } from "../src/validator";
+import { convertStringToDrizzleFilter, convertStringToDrizzleHaving } from "../src";
+
+const customers = pgTable('customers', { id: serial('id'), name: text('name') });
+const orders = pgTable('orders', {
+    id: serial('id'),
+    customerId: integer('customer_id'),
+    amount: numeric('amount'),
+    quantity: integer('quantity'),
+    placedAt: timestamp('placed_at'),
+});
+const columnMap = {
+    customerId: orders.customerId,
+    amount: orders.amount,
+    quantity: orders.quantity,
+    placedAt: orders.placedAt,
+    customer: relation(customers, eq(customers.id, orders.customerId)),
+};
+const dialect = new PgDialect();
+const toQuery = (filter: unknown) => dialect.sqlToQuery(filter as SQL);
+
+describe('convertStringToDrizzleHaving', () => {
+    it('should generate comparisons of aggregates', () => {
+        expect(toQuery(convertStringToDrizzleHaving('gt(sum("amount"), 1000)', columnMap))).toMatchObject({
+            sql: 'sum("orders"."amount") > $1',
+            params: [1000],
+        });
+        expect(toQuery(convertStringToDrizzleHaving('and(gte(count(), 5), lt(avg(quantity), 2.5), eq(customerId, 7))', columnMap))).toMatchObject({
+            sql: '(count(*) >= $1 and avg("orders"."quantity") < $2 and "orders"."customer_id" = $3)',
+            params: [5, 2.5, 7],
+        });
+        expect(toQuery(convertStringToDrizzleHaving('gt(max(quantity), avg(quantity))', columnMap)).sql)
+            .toBe('max("orders"."quantity") > avg("orders"."quantity")');
+    });
+
+    it('should read count(*) as count()', () => {
+        expect(toQuery(convertStringToDrizzleHaving('gt(count(*), 5)', columnMap)).sql).toBe('count(*) > $1');
+        expect(() => convertStringToDrizzleHaving('gt(sum(*), 5)', columnMap)).toThrow("Unexpected token '*'");
+    });
+
+    it('should accept aggregates in infix syntax', () => {
+        expect(toQuery(convertStringToDrizzleHaving('sum(amount) > 1000 and count(*) >= 5', columnMap, { syntax: 'infix' }))).toMatchObject({
+            sql: '(sum("orders"."amount") > $1 and count(*) >= $2)',
+            params: [1000, 5],
+        });
+        expect(toQuery(convertStringToDrizzleHaving('max(quantity) > avg(quantity) or avg(quantity) between 1 and 2', columnMap, { syntax: 'infix' })).sql)
+            .toBe('(max("orders"."quantity") > avg("orders"."quantity") or avg("orders"."quantity") between $1 and $2)');
+    });
+
+    it('should coerce values compared with min and max to the column type', () => {
+        expect(toQuery(convertStringToDrizzleHaving('gt(max(placedAt), "2024-01-01")', columnMap)).params).toEqual([new Date('2024-01-01')]);
+        expect(toQuery(convertStringToDrizzleHaving('lt(min(quantity), "3")', columnMap)).params).toEqual([3]);
+        expect(() => convertStringToDrizzleHaving('lt(min(quantity), "many")', columnMap)).toThrow(expect.objectContaining({ code: 'COERCION_FAILED' }));
+    });
+
+    it('should reject invalid aggregate arguments', () => {
+        expect(() => convertStringToDrizzleHaving('gt(sum(), 1)', columnMap)).toThrow("'sum' expects 1 argument but got 0.");
+        expect(() => convertStringToDrizzleHaving('gt(count(quantity, amount), 1)', columnMap)).toThrow(expect.objectContaining({ code: 'ARGUMENT_COUNT' }));
+        expect(() => convertStringToDrizzleHaving('gt(sum(total), 1)', columnMap)).toThrow(expect.objectContaining({ code: 'UNKNOWN_COLUMN', span: { start: 7, end: 12 } }));
+        expect(() => convertStringToDrizzleHaving('gt(sum("amount"), 1)', columnMap, { strict: true })).toThrow("'sum' expects a column reference.");
+        expect(() => convertStringToDrizzleHaving('gt(count(customer.name), 1)', columnMap)).toThrow("Cannot aggregate 'customer.name': it is a column of a related table.");
+        expect(() => convertStringToDrizzleHaving('gt(avg(placedAt), 1)', columnMap)).toThrow("'avg' cannot be applied to column 'placedAt' of type date.");
+    });
+
+    it('should apply the policy and validation', () => {
+        expect(() => convertStringToDrizzleHaving('gt(sum(amount), 1)', columnMap, { policy: { operators: ['gt'] } })).toThrow(expect.objectContaining({ code: 'OPERATOR_NOT_ALLOWED' }));
+        expect(toQuery(convertStringToDrizzleHaving('gt(sum(amount), 1)', columnMap, { policy: { operators: ['gt', 'sum'] }, validate: true })).sql)
+            .toBe('sum("orders"."amount") > $1');
+        expect(() => convertStringToDrizzleHaving('gt(sum(total), 1)', columnMap, { validate: true })).toThrow(expect.objectContaining({ name: 'ValidationError' }));
+    });
+
+    it('should only allow aggregates in aggregate mode', () => {
+        expect(() => convertStringToDrizzleFilter('gt(sum(amount), 1)' as string, columnMap)).toThrow("Unsupported Drizzle ORM function: 'sum'.");
+        expect(() => convertStringToDrizzleHaving('sum(amount)', columnMap)).toThrow("Unsupported Drizzle ORM function: 'sum'.");
+    });
+});
+
+describe('Validator with aggregates', () => {
+    const validate = (input: string, aggregates: boolean) =>
+        new Validator(columnMap, { aggregates }).validate(new Parser(new Lexer(input)).parse()).map(error => error.message);
+
+    it('should accept aggregate operands and check their arguments', () => {
+        expect(validate('and(gt(count(), 5), lt(max(quantity), avg(quantity)))', true)).toEqual([]);
+        expect(validate('and(gt(sum(total), 5), lt(min(quantity), "many"))', true)).toEqual([
+            "Unknown column 'total'.",
+            expect.stringContaining('many'),
+        ]);
+        expect(validate('gt(count(), 5)', false)).toEqual([expect.stringContaining("'gt' expects a column name")]);
+        expect(validate('and(gt(sum(amount), 5), gt(sum(placedAt), 5), gt(max(placedAt), "2024-01-01"))', true))
+            .toEqual(["'sum' cannot be applied to column 'placedAt' of type date."]);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { bigint, boolean, integer, json, pgEnum, pgTable, real, text, timestamp } from "drizzle-orm/pg-core";
+import { coerceValue, CoercionError } from "../src/coercion";
+import { ParserError } from "../src/parser";
+import { StringLiteral } from "../src/ast";
+
+const statusEnum = pgEnum('status', ['active', 'archived']);
+
+const users = pgTable('users', {
+    age: integer('age'),
+    score: real('score'),
+    balance: bigint('balance', { mode: 'bigint' }),
+    isActive: boolean('is_active'),
+    createdAt: timestamp('created_at'),
+    createdAtText: timestamp('created_at_text', { mode: 'string' }),
+    name: text('name'),
+    status: statusEnum('status'),
+    settings: json('settings'),
+});
+
+describe('coerceValue', () => {
+    it('should convert numeric strings for number columns', () => {
+        expect(coerceValue('30', users.age)).toBe(30);
+        expect(coerceValue(' 4.5 ', users.score)).toBe(4.5);
+        expect(coerceValue(30, users.age)).toBe(30);
+    });
+
+    it('should reject non-numeric and fractional values for integer columns', () => {
+        expect(() => coerceValue('thirty', users.age)).toThrow("Cannot coerce value \"thirty\" to number for column 'age'.");
+        expect(() => coerceValue('', users.age)).toThrow(CoercionError);
+        expect(() => coerceValue(true, users.age)).toThrow(CoercionError);
+        expect(() => coerceValue('1.5', users.age)).toThrow("Cannot coerce value \"1.5\" to integer for column 'age'.");
+    });
+
+    it('should convert integers and integer strings for bigint columns', () => {
+        expect(coerceValue('9007199254740993', users.balance)).toBe(9007199254740993n);
+        expect(coerceValue(12, users.balance)).toBe(12n);
+        expect(() => coerceValue('12.5', users.balance)).toThrow(CoercionError);
+    });
+
+    it('should convert boolean-like values for boolean columns', () => {
+        expect(coerceValue('true', users.isActive)).toBe(true);
+        expect(coerceValue('FALSE', users.isActive)).toBe(false);
+        expect(coerceValue('1', users.isActive)).toBe(true);
+        expect(coerceValue(0, users.isActive)).toBe(false);
+        expect(() => coerceValue('yes', users.isActive)).toThrow(CoercionError);
+    });
+
+    it('should convert date strings for date columns', () => {
+        const value = coerceValue('2024-01-01T00:00:00.000Z', users.createdAt);
+        expect(value).toBeInstanceOf(Date);
+        expect((value as Date).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+        expect(() => coerceValue('not a date', users.createdAt)).toThrow(CoercionError);
+    });
+
+    it('should stringify values for string columns', () => {
+        expect(coerceValue(42, users.name)).toBe('42');
+        expect(coerceValue(new Date('2024-01-01T00:00:00.000Z'), users.createdAtText)).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should validate enum membership', () => {
+        expect(coerceValue('active', users.status)).toBe('active');
+        expect(() => coerceValue('deleted', users.status)).toThrow("Cannot coerce value \"deleted\" to one of [active, archived] for column 'status'.");
+    });
+
+    it('should pass null and json values through unchanged', () => {
+        expect(coerceValue(null, users.age)).toBeNull();
+        expect(coerceValue('{"a":1}', users.settings)).toBe('{"a":1}');
+    });
+
+    it('should attach the offending node to the error', () => {
+        const node: StringLiteral = { kind: 'StringLiteral', value: 'abc' };
+        try {
+            coerceValue(node.value, users.age, node);
+            expect.fail('Expected coerceValue to throw');
+        } catch (e) {
+            expect(e).toBeInstanceOf(ParserError);
+            expect((e as CoercionError).node).toBe(node);
+        }
+    });
+});
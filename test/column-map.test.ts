@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { relations } from "drizzle-orm";
+import { integer, pgEnum, pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
+import { columnMapFromTable, columnMapsFromSchema, normalizeName } from "../src/column-map";
+import { convertStringToDrizzleFilter } from "../src";
+
+const users = pgTable('users', {
+    id: serial('id').primaryKey(),
+    fullName: text('full_name'),
+    createdAt: timestamp('created_at'),
+    passwordHash: text('password_hash'),
+});
+
+const posts = pgTable('posts', {
+    id: serial('id').primaryKey(),
+    author_id: integer('author_id'),
+});
+
+const role = pgEnum('role', ['admin', 'member']);
+const usersRelations = relations(users, ({ many }) => ({ posts: many(posts) }));
+
+describe('columnMapFromTable', () => {
+    it('should map every column by property name', () => {
+        expect(columnMapFromTable(users)).toEqual({
+            id: users.id,
+            fullName: users.fullName,
+            createdAt: users.createdAt,
+            passwordHash: users.passwordHash,
+        });
+    });
+
+    it('should apply include and exclude lists', () => {
+        expect(Object.keys(columnMapFromTable(users, { include: ['id', 'fullName'] }))).toEqual(['id', 'fullName']);
+        expect(Object.keys(columnMapFromTable(users, { exclude: ['passwordHash'] }))).toEqual(['id', 'fullName', 'createdAt']);
+    });
+
+    it('should add aliases and normalize names', () => {
+        const columnMap = columnMapFromTable(users, { exclude: ['passwordHash'], aliases: { created: 'createdAt' }, case: 'snake' });
+
+        expect(Object.keys(columnMap)).toEqual(['id', 'full_name', 'created_at', 'created']);
+        expect(columnMap.created).toBe(users.createdAt);
+        expect(Object.keys(columnMapFromTable(posts, { case: 'camel' }))).toEqual(['id', 'authorId']);
+    });
+
+    it('should reject aliases to unknown columns', () => {
+        expect(() => columnMapFromTable(users, { aliases: { x: 'nope' as 'id' } })).toThrow("Cannot alias 'x' to unknown column 'nope'.");
+    });
+
+    it('should produce a ColumnMap usable for conversion', () => {
+        const columnMap = columnMapFromTable(users, { case: 'snake' });
+
+        expect(convertStringToDrizzleFilter('eq(full_name, "Ann")', columnMap)).toBeDefined();
+    });
+});
+
+describe('columnMapsFromSchema', () => {
+    it('should build a ColumnMap per table and skip other exports', () => {
+        const columnMaps = columnMapsFromSchema({ users, posts, role, usersRelations }, { case: 'camel' });
+
+        expect(Object.keys(columnMaps)).toEqual(['users', 'posts']);
+        expect(columnMaps.posts.authorId).toBe(posts.author_id);
+    });
+});
+
+describe('normalizeName', () => {
+    it('should convert between camelCase and snake_case', () => {
+        expect(normalizeName('created_at', 'camel')).toBe('createdAt');
+        expect(normalizeName('createdAt', 'snake')).toBe('created_at');
+        expect(normalizeName('UserId', 'snake')).toBe('user_id');
+        expect(normalizeName('createdAt', 'preserve')).toBe('createdAt');
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { fillPlaceholders, SQL, sql } from "drizzle-orm";
+import { integer, PgDialect, pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
+import { Lexer } from "../src/lexer";
+import { Parser } from "../src/parser";
+import { FilterGenerator } from "../src/generator";
+import { createOperatorRegistry } from "../src/operators";
+import { PolicyViolationError } from "../src/policy";
+import { compileStringToDrizzleFilter } from "../src";
+
+const users = pgTable('users', {
+    id: serial('id'),
+    age: integer('age'),
+    status: text('status'),
+    tags: text('tags').array(),
+    createdAt: timestamp('created_at'),
+});
+const columnMap = { age: users.age, status: users.status, tags: users.tags, createdAt: users.createdAt };
+const dialect = new PgDialect();
+const toQuery = (filter: unknown) => dialect.sqlToQuery(filter as SQL);
+
+describe('FilterGenerator.compile', () => {
+    it('should replace every value with a placeholder and return the coerced values', () => {
+        const { where, values } = compileStringToDrizzleFilter('and(gt(age, "30"), eq(status, "active"), lt(createdAt, "2024-01-01"))', columnMap);
+        const query = toQuery(where);
+
+        expect(query.sql).toBe('("users"."age" > $1 and "users"."status" = $2 and "users"."created_at" < $3)');
+        expect(values).toEqual({ p1: 30, p2: 'active', p3: new Date('2024-01-01') });
+        expect(fillPlaceholders(query.params, values)).toEqual([30, 'active', new Date('2024-01-01')]);
+    });
+
+    it('should compile filters that only differ in their values to the same SQL', () => {
+        const first = compileStringToDrizzleFilter('age > 30 and status = "active"', columnMap, { syntax: 'infix' });
+        const second = compileStringToDrizzleFilter('age > 18 and status = "pending"', columnMap, { syntax: 'infix' });
+
+        expect(toQuery(second.where).sql).toBe(toQuery(first.where).sql);
+        expect(second.values).toEqual({ p1: 18, p2: 'pending' });
+    });
+
+    it('should give list elements their own placeholders and array values a single one', () => {
+        const { where, values } = compileStringToDrizzleFilter('and(inArray(age, [1, "2"]), arrayContains(tags, ["a", "b"]))', columnMap);
+
+        expect(toQuery(where).sql).toBe('("users"."age" in ($1, $2) and "users"."tags" @> $3)');
+        expect(values).toEqual({ p1: 1, p2: 2, p3: ['a', 'b'] });
+    });
+
+    it('should keep columns and filters without values as they are', () => {
+        const { where, values } = compileStringToDrizzleFilter('or(isNull(status), eq(status, "createdAt"))', columnMap);
+
+        expect(toQuery(where).sql).toBe('("users"."status" is null or "users"."status" = "users"."created_at")');
+        expect(values).toEqual({});
+    });
+
+    it('should compile the values bound to template placeholders and keep Drizzle placeholders', () => {
+        const ast = new Parser(new Lexer('and(eq(age, $age), inArray(status, $statuses), eq(status, $status))')).parse();
+        const generator = new FilterGenerator(columnMap, { params: { age: '42', statuses: ['a', 'b'], status: sql.placeholder('status') } });
+        const { where, values } = generator.compile(ast);
+
+        expect(toQuery(where).sql).toBe('("users"."age" = $1 and "users"."status" in ($2, $3) and "users"."status" = $4)');
+        expect(values).toEqual({ p1: 42, p2: 'a', p3: 'b' });
+    });
+
+    it('should not reuse the names of Drizzle placeholders bound to template placeholders', () => {
+        const ast = new Parser(new Lexer('and(eq(age, 1), eq(status, $status), gt(age, $min), lt(age, 9))')).parse();
+        const generator = new FilterGenerator(columnMap, { params: { status: sql.placeholder('p1'), min: sql.placeholder('p3') } });
+        const { where, values } = generator.compile(ast);
+
+        expect(toQuery(where).params).toEqual([sql.placeholder('p2'), sql.placeholder('p1'), sql.placeholder('p3'), sql.placeholder('p4')]);
+        expect(values).toEqual({ p2: 1, p4: 9 });
+    });
+
+    it('should pass placeholders to custom operators', () => {
+        const operators = createOperatorRegistry().register('search', {
+            signature: { params: ['column', 'value'], columnDataTypes: ['string'] },
+            build: (column, value) => sql`${column} @@ plainto_tsquery(${value})`,
+        });
+        const { where, values } = compileStringToDrizzleFilter('search(status, "red shoes")', columnMap, { operators });
+
+        expect(toQuery(where).sql).toBe('"users"."status" @@ plainto_tsquery($1)');
+        expect(values).toEqual({ p1: 'red shoes' });
+    });
+
+    it('should not affect later calls to generate', () => {
+        const ast = new Parser(new Lexer('eq(age, 1)')).parse();
+        const generator = new FilterGenerator(columnMap);
+        generator.compile(ast);
+
+        expect(toQuery(generator.generate(ast)).params).toEqual([1]);
+    });
+
+    it('should apply the policy and normalization like convertStringToDrizzleFilter', () => {
+        const { where, values } = compileStringToDrizzleFilter('or(eq(status, "b"), eq(status, "a"))', columnMap, { normalize: true, strict: true });
+
+        expect(toQuery(where).sql).toBe('"users"."status" in ($1, $2)');
+        expect(values).toEqual({ p1: 'a', p2: 'b' });
+        expect(() => compileStringToDrizzleFilter('eq(age, 1)', columnMap, { policy: { columns: ['status'] } })).toThrow(PolicyViolationError);
+    });
+});
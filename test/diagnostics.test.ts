@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { integer, pgTable, text } from "drizzle-orm/pg-core";
+import { createDiagnostic, formatExcerpt, ParserError } from "../src/diagnostics";
+import { convertStringToDrizzleFilter } from "../src/index";
+import { Lexer } from "../src/lexer";
+import { Parser } from "../src/parser";
+
+const users = pgTable('users', {
+    name: text('name'),
+    age: integer('age'),
+});
+
+const columnMap = { name: users.name, age: users.age };
+
+/**
+ * Runs the full pipeline and returns the thrown error as a Diagnostic.
+ */
+function diagnose(source: string, syntax: 'prefix' | 'infix' = 'prefix') {
+    try {
+        convertStringToDrizzleFilter(source, columnMap, { syntax });
+    } catch (e) {
+        expect(e).toBeInstanceOf(ParserError);
+        return (e as ParserError).toDiagnostic(source);
+    }
+    throw new Error(`Expected '${source}' to fail`);
+}
+
+describe('Diagnostics', () => {
+    it('should resolve offsets to 1-based lines and columns', () => {
+        const source = 'and(\n  eq("a", 1),\n  gt("b", 2)\n)';
+        const diagnostic = createDiagnostic(source, 'UNEXPECTED_TOKEN', 'Bad', { start: 21, end: 31 });
+
+        expect(diagnostic).toMatchObject({ line: 3, column: 3, endLine: 3, endColumn: 13 });
+        expect(diagnostic.excerpt).toBe('  gt("b", 2)\n  ^^^^^^^^^^');
+    });
+
+    it('should render a single caret for an empty range', () => {
+        expect(formatExcerpt('eq("a"', 6, 6)).toBe('eq("a"\n      ^');
+    });
+
+    it('should report unclosed strings from the lexer', () => {
+        const diagnostic = diagnose('eq("name", "Ali');
+
+        expect(diagnostic.code).toBe('UNCLOSED_STRING');
+        expect(diagnostic.excerpt).toBe('eq("name", "Ali\n           ^^^^');
+    });
+
+    it('should report unexpected tokens from the parser', () => {
+        const diagnostic = diagnose('eq("name" "Alice")');
+
+        expect(diagnostic).toMatchObject({ code: 'UNEXPECTED_TOKEN', start: 10, end: 17, line: 1, column: 11 });
+        expect(diagnostic.excerpt).toBe('eq("name" "Alice")\n          ^^^^^^^');
+    });
+
+    it('should report invalid date literals', () => {
+        const diagnostic = diagnose('gt("age", date("soon"))');
+
+        expect(diagnostic.code).toBe('INVALID_DATE');
+        expect(diagnostic.excerpt).toBe('gt("age", date("soon"))\n               ^^^^^^');
+    });
+
+    it('should report unsupported functions from the generator with the call span', () => {
+        const diagnostic = diagnose('and(eq("name", "a"), near("age", 3))');
+
+        expect(diagnostic).toMatchObject({ code: 'UNSUPPORTED_FUNCTION', start: 21, end: 35 });
+        expect(diagnostic.excerpt).toBe('and(eq("name", "a"), near("age", 3))\n                     ^^^^^^^^^^^^^^');
+    });
+
+    it('should report coercion failures at the offending literal', () => {
+        const diagnostic = diagnose('name = "Bob" and age > "old"', 'infix');
+
+        expect(diagnostic.code).toBe('COERCION_FAILED');
+        expect(diagnostic.excerpt).toBe('name = "Bob" and age > "old"\n                       ^^^^^');
+    });
+
+    it('should cover the whole input when an error has no span', () => {
+        const diagnostic = new ParserError('Something went wrong').toDiagnostic('eq("a", 1)');
+
+        expect(diagnostic).toMatchObject({ start: 0, end: 10, column: 1, endColumn: 11 });
+    });
+
+    it('should expose the failing token span on parser errors', () => {
+        const parser = new Parser(new Lexer('eq "a"'));
+
+        try {
+            parser.parse();
+            expect.fail('Expected parse to throw');
+        } catch (e) {
+            expect((e as ParserError).span).toEqual({ start: 3, end: 6 });
+        }
+    });
+});
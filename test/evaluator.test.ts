@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { Evaluator, EvaluatorOptions, FilterRecord } from "../src/evaluator";
+import { Lexer } from "../src/lexer";
+import { Parser } from "../src/parser";
+import { CoercionError } from "../src/coercion";
+import { ParserError } from "../src/parser";
+import { createFilterPredicate } from "../src";
+
+const parse = (input: string) => new Parser(new Lexer(input)).parse();
+const truth = (filter: string, record: FilterRecord, options: EvaluatorOptions = {}) =>
+    new Evaluator(options).evaluateTruth(parse(filter), record);
+
+const ann = { name: 'Ann', age: 30, email: null, active: true, tags: ['a', 'b'], createdAt: new Date('2024-03-01T00:00:00Z') };
+
+describe('Evaluator', () => {
+    it('should evaluate comparisons', () => {
+        expect(truth('eq(name, "Ann")', ann)).toBe(true);
+        expect(truth('ne(name, "Ann")', ann)).toBe(false);
+        expect(truth('and(gt(age, 29), gte(age, 30), lt(age, 31), lte(age, 30))', ann)).toBe(true);
+        expect(truth('gt(name, "Al")', ann)).toBe(true);
+        expect(truth('gt(createdAt, date("2024-01-01"))', ann)).toBe(true);
+        expect(truth('eq(active, true)', ann)).toBe(true);
+    });
+
+    // Expected results follow PostgreSQL: NULL compares as UNKNOWN (null), and a WHERE clause keeps only TRUE rows.
+    it.each([
+        ['eq(email, "a@b.c")', null],
+        ['ne(email, "a@b.c")', null],
+        ['gt(email, "a")', null],
+        ['eq(name, null)', null],
+        ['like(email, "%")', null],
+        ['not(eq(email, "a@b.c"))', null],
+        ['and(eq(name, "Ann"), eq(email, "x"))', null],
+        ['and(eq(name, "Bob"), eq(email, "x"))', false],
+        ['or(eq(name, "Bob"), eq(email, "x"))', null],
+        ['or(eq(name, "Ann"), eq(email, "x"))', true],
+        ['isNull(email)', true],
+        ['isNotNull(email)', false],
+        ['isNull(missing)', true],
+        ['inArray(email, ["x"])', null],
+        ['inArray(age, [1, null])', null],
+        ['inArray(age, [30, null])', true],
+        ['notInArray(age, [1, null])', null],
+        ['notInArray(age, [1, 2])', true],
+        ['inArray(age, [])', false],
+        ['notInArray(email, [])', true],
+        ['between(age, 30, 40)', true],
+        ['between(age, null, 40)', null],
+        ['between(age, null, 20)', false],
+        ['notBetween(age, 31, 40)', true],
+        ['notBetween(email, 1, 2)', null],
+        ['arrayContains(tags, ["a"])', true],
+        ['arrayContains(tags, ["a", "c"])', false],
+        ['arrayContained(tags, ["a", "b", "c"])', true],
+        ['arrayOverlaps(tags, ["c", "b"])', true],
+        ['arrayOverlaps(tags, [null])', false],
+        ['arrayContains(missing, ["a"])', null],
+    ])('should agree with SQL semantics for %s', (filter, expected) => {
+        expect(truth(filter, ann)).toBe(expected);
+        expect(new Evaluator().evaluate(parse(filter), ann)).toBe(expected === true);
+    });
+
+    it('should follow like and ilike wildcard semantics', () => {
+        const record = { code: 'A_100%', text: 'line1\nline2' };
+
+        expect(truth('like(code, "A%")', record)).toBe(true);
+        expect(truth('like(code, "a%")', record)).toBe(false);
+        expect(truth('ilike(code, "a%")', record)).toBe(true);
+        expect(truth('like(code, "A_1__%")', record)).toBe(true);
+        expect(truth('like(code, "A\\_1%\\%")', record)).toBe(true);
+        expect(truth('like(code, "AB100%")', record)).toBe(false);
+        expect(truth('like(code, "A.*")', record)).toBe(false);
+        expect(truth('like(text, "line1%2")', record)).toBe(true);
+        expect(truth('notLike(code, "B%")', record)).toBe(true);
+        expect(truth('notIlike(code, "a%")', record)).toBe(false);
+    });
+
+    it('should treat an empty and/or as no condition', () => {
+        expect(truth('and()', ann)).toBe(true);
+        expect(truth('or(and(), eq(name, "Bob"))', ann)).toBe(false);
+    });
+
+    it('should coerce literals to the type of the record value', () => {
+        expect(truth('eq(age, "30")', ann)).toBe(true);
+        expect(truth('eq(active, "true")', ann)).toBe(true);
+        expect(truth('eq(createdAt, "2024-03-01T00:00:00Z")', ann)).toBe(true);
+        expect(truth('eq(id, 1)', { id: 1n })).toBe(true);
+        expect(truth('eq(zip, 1234)', { zip: '1234' })).toBe(true);
+        expect(truth('like(zip, "12%")', { zip: '1234' })).toBe(true);
+        expect(() => truth('eq(age, "abc")', ann)).toThrow(CoercionError);
+        expect(() => truth('eq(age, "abc")', ann)).toThrow("Cannot coerce value \"abc\" to number for column 'age'.");
+        expect(() => truth('eq(age, "30")', ann, { coerceValues: false })).toThrow('Cannot compare a number with a string.');
+    });
+
+    it('should compare columns with columns', () => {
+        expect(truth('lt(min, max)', { min: 1, max: 2 })).toBe(true);
+        expect(truth('lt(min, col("max value"))', { min: 3, 'max value': 2 })).toBe(false);
+    });
+
+    it('should read quoted column names unless strict', () => {
+        expect(truth('eq("name", "Ann")', ann)).toBe(true);
+        expect(truth('eq("name", "Ann")', ann, { strict: true })).toBe(false);
+    });
+
+    it('should evaluate dotted paths through related rows like EXISTS', () => {
+        const record = {
+            organization: { name: 'Acme', owner: null },
+            posts: [{ title: 'a', draft: true }, { title: 'b', draft: false }],
+            'flat.key': 1,
+        };
+
+        expect(truth('eq(organization.name, "Acme")', record)).toBe(true);
+        expect(truth('eq(posts.title, "b")', record)).toBe(true);
+        expect(truth('and(eq(posts.title, "a"), eq(posts.draft, false))', record)).toBe(true);
+        expect(truth('eq(posts.title, "c")', record)).toBe(false);
+        expect(truth('eq(posts.title, null)', record)).toBe(false);
+        expect(truth('isNull(organization.owner.email)', record)).toBe(false);
+        expect(truth('eq(flat.key, 1)', record)).toBe(true);
+    });
+
+    it('should reject what it cannot evaluate', () => {
+        expect(() => truth('search(name)', ann)).toThrow(ParserError);
+        expect(() => truth('search(name)', ann)).toThrow("Unsupported function for in-memory evaluation: 'search'.");
+        expect(() => truth('between(age, 1)', ann)).toThrow("'between' expects 3 argument(s) but got 2.");
+        expect(() => truth('and(name)', ann)).toThrow("'and' expects filters as arguments.");
+        expect(() => truth('eq(tags, true)', ann, { coerceValues: false })).toThrow('Cannot compare an array with a boolean.');
+        expect(() => truth('arrayContains(age, [])', ann)).toThrow(expect.objectContaining({ code: 'TYPE_MISMATCH', message: 'Cannot compare a number with an array.' }));
+        expect(() => truth('arrayOverlaps(email, ["a"])', { email: 'a' })).toThrow('Cannot compare a string with an array.');
+    });
+});
+
+describe('createFilterPredicate', () => {
+    it('should filter plain objects', () => {
+        const rows = [ann, { ...ann, name: 'Bob', age: 20 }, { ...ann, name: 'Cy', age: null }];
+
+        expect(rows.filter(createFilterPredicate('age >= 25 or age is null', { syntax: 'infix' })).map(row => row.name)).toEqual(['Ann', 'Cy']);
+        expect(rows.filter(createFilterPredicate('not(gt(age, 25))')).map(row => row.name)).toEqual(['Bob']);
+    });
+});
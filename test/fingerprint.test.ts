@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { pgTable, serial, text } from "drizzle-orm/pg-core";
+import { canonicalFilterKey, fingerprintFilter } from "../src/fingerprint";
+import { Lexer } from "../src/lexer";
+import { Parser } from "../src/parser";
+
+const parse = (input: string, syntax: 'prefix' | 'infix' = 'prefix') => new Parser(new Lexer(input), { syntax }).parse();
+
+describe('fingerprintFilter', () => {
+    it('should be the same for equivalent filters', () => {
+        const fingerprint = fingerprintFilter(parse('and(gt(age, 30), eq(name, "Ann"))'));
+
+        expect(fingerprint).toMatch(/^[0-9a-f]{64}$/);
+        expect(fingerprintFilter(parse('and( eq(name,"Ann"),gt(age,30) )'))).toBe(fingerprint);
+        expect(fingerprintFilter(parse('name = "Ann" and (age > 30)', 'infix'))).toBe(fingerprint);
+        expect(fingerprintFilter(parse('and(and(eq(name, "Ann")), not(not(gt(age, 30))), eq(name, "Ann"))'))).toBe(fingerprint);
+    });
+
+    it('should differ for different filters', () => {
+        const fingerprints = [
+            'and(gt(age, 30), eq(name, "Ann"))',
+            'or(gt(age, 30), eq(name, "Ann"))',
+            'and(gt(age, 31), eq(name, "Ann"))',
+            'and(gt(age, "30"), eq(name, "Ann"))',
+            'and(gt(age, 30), eq(col("name"), "Ann"))',
+            'and(gt(age, 30), eq("name", "Ann"))',
+        ].map(filter => fingerprintFilter(parse(filter)));
+
+        expect(new Set(fingerprints).size).toBe(fingerprints.length - 1);
+        expect(fingerprints[4]).toBe(fingerprints[0]);
+    });
+
+    it('should replace values with placeholders in shape mode', () => {
+        const shape = (filter: string) => fingerprintFilter(parse(filter), { shape: true });
+
+        expect(canonicalFilterKey(parse('and(gt(age, 30), inArray(status, ["a", "b"]))'), { shape: true })).toBe(JSON.stringify({
+            kind: 'CallExpression',
+            functionName: 'and',
+            args: [
+                { kind: 'CallExpression', functionName: 'gt', args: [{ kind: 'ColumnReference', name: 'age' }, { kind: 'NumberLiteral' }] },
+                { kind: 'CallExpression', functionName: 'inArray', args: [{ kind: 'ColumnReference', name: 'status' }, { kind: 'ArrayLiteral' }] },
+            ],
+        }));
+        expect(shape('and(gt(age, 30), inArray(status, ["a", "b"]))')).toBe(shape('and(inArray(status, ["c"]), gt(age, 18))'));
+        expect(shape('and(or(eq(a, 1), gt(b, 9)), or(eq(a, 2), gt(c, 1)))')).toBe(shape('and(or(eq(a, 9), gt(c, 5)), or(eq(a, 0), gt(b, 1)))'));
+        expect(shape('gt(age, 30)')).not.toBe(shape('gt(age, "30")'));
+        expect(shape('gt(age, 30)')).not.toBe(fingerprintFilter(parse('gt(age, 30)')));
+    });
+
+    it('should keep quoted column names in shape mode when given the column map', () => {
+        const users = pgTable('users', { id: serial('id'), name: text('name'), email: text('email') });
+        const columnMap = { name: users.name, email: users.email };
+        const key = (filter: string) => canonicalFilterKey(parse(filter), { shape: true, columnMap });
+
+        expect(key('eq("name", "Ann")')).toContain('{"kind":"StringLiteral","value":"name"}');
+        expect(key('eq("name", "Ann")')).not.toContain('Ann');
+        expect(key('eq("name", "Ann")')).not.toBe(key('eq("email", "Ann")'));
+
+        const strictKey = (filter: string) => canonicalFilterKey(parse(filter), { shape: true, columnMap, strict: true });
+        expect(strictKey('eq("name", "Ann")')).toBe(strictKey('eq("email", "Bob")'));
+    });
+});
@@ -4,14 +4,17 @@ import { AnyColumn } from "drizzle-orm";
 import { FilterGenerator, ColumnMap } from '../src/generator'
 import { Program } from "../src/ast";
 import { ParserError } from "../src/parser";
+import { CoercionError } from "../src/coercion";
 
-const { mockAnd, mockEq, mockOr, mockLike, mockIlike, mockGt, mockGte, mockLt, mockLte, mockIsNull, mockIsNotNull, mockNot } = vi.hoisted(() => {
+const { mockAnd, mockEq, mockNe, mockOr, mockLike, mockIlike, mockNotLike, mockGt, mockGte, mockLt, mockLte, mockIsNull, mockIsNotNull, mockNot, mockInArray, mockNotInArray, mockArrayContains } = vi.hoisted(() => {
     // Mock Drizzle ORM function for testing
     const mockEq = vi.fn((col: AnyColumn | string, val: string | number) => `eq(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(val)})`);
+    const mockNe = vi.fn((col: AnyColumn | string, val: string | number) => `ne(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(val)})`);
     const mockAnd = vi.fn((...args: any[]) => `and(${args.join(', ')})`);
     const mockOr = vi.fn((...args: any[]) => `or(${args.join(', ')})`);
     const mockLike = vi.fn((col: AnyColumn | string, val: string) => `like(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(val)})`);
     const mockIlike = vi.fn((col: AnyColumn | string, val: string) => `ilike(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(val)})`);
+    const mockNotLike = vi.fn((col: AnyColumn | string, val: string) => `notLike(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(val)})`);
     const mockGt = vi.fn((col: AnyColumn | string, val: string | number) => `gt(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(val)})`);
     const mockGte = vi.fn((col: AnyColumn | string, val: string | number) => `gte(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(val)})`);
     const mockLt = vi.fn((col: AnyColumn | string, val: string | number) => `lt(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(val)})`);
@@ -19,7 +22,10 @@ const { mockAnd, mockEq, mockOr, mockLike, mockIlike, mockGt, mockGte, mockLt, m
     const mockIsNull = vi.fn((col: AnyColumn | string) => `isNull(${typeof col === 'object' ? (col as any).__name : col})`);
     const mockIsNotNull = vi.fn((col: AnyColumn | string) => `isNotNull(${typeof col === 'object' ? (col as any).__name : col})`);
     const mockNot = vi.fn((filter: SQL) => `not(${filter})`);
-    return { mockAnd, mockEq, mockOr, mockLike, mockIlike, mockGt, mockGte, mockLt, mockLte, mockIsNull, mockIsNotNull, mockNot };
+    const mockInArray = vi.fn((col: AnyColumn | string, values: (string | number)[]) => `inArray(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(values)})`);
+    const mockNotInArray = vi.fn((col: AnyColumn | string, values: (string | number)[]) => `notInArray(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(values)})`);
+    const mockArrayContains = vi.fn((col: AnyColumn | string, values: (string | number)[]) => `arrayContains(${typeof col === 'object' ? (col as any).__name : col}, ${JSON.stringify(values)})`);
+    return { mockAnd, mockEq, mockNe, mockOr, mockLike, mockIlike, mockNotLike, mockGt, mockGte, mockLt, mockLte, mockIsNull, mockIsNotNull, mockNot, mockInArray, mockNotInArray, mockArrayContains };
 })
 
 
@@ -52,10 +58,12 @@ vi.mock('drizzle-orm', async (importOriginal) => {
     return {
         ...actual,
         eq: mockEq,
+        ne: mockNe,
         and: mockAnd,
         or: mockOr,
         like: mockLike,
         ilike: mockIlike,
+        notLike: mockNotLike,
         gt: mockGt,
         gte: mockGte,
         lt: mockLt,
@@ -63,6 +71,9 @@ vi.mock('drizzle-orm', async (importOriginal) => {
         isNull: mockIsNull,
         isNotNull: mockIsNotNull,
         not: mockNot,
+        inArray: mockInArray,
+        notInArray: mockNotInArray,
+        arrayContains: mockArrayContains,
     };
 });
 
@@ -340,4 +351,249 @@ describe('FilterGenerator', () => {
         expect(mockGt).toHaveBeenCalledWith(mockUsersTable.price, 99.99);
         expect(result).toBe('gt(users.price, 99.99)');
     });
+
+    it('should pass an array literal to inArray as a plain array', () => {
+        const ast: Program = {
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'inArray',
+                args: [
+                    { kind: 'StringLiteral', value: 'name' },
+                    {
+                        kind: 'ArrayLiteral',
+                        elements: [
+                            { kind: 'StringLiteral', value: 'Alice' },
+                            { kind: 'StringLiteral', value: 'Bob' },
+                        ],
+                    },
+                ],
+            },
+        };
+
+        const generator = new FilterGenerator(mockColumnMap);
+        const result = generator.generate(ast);
+
+        expect(mockInArray).toHaveBeenCalledWith(mockUsersTable.name, ['Alice', 'Bob']);
+        expect(result).toBe('inArray(users.name, ["Alice","Bob"])');
+    });
+
+    it('should generate a notInArray filter with mixed literals', () => {
+        const ast: Program = {
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'notInArray',
+                args: [
+                    { kind: 'StringLiteral', value: 'id' },
+                    {
+                        kind: 'ArrayLiteral',
+                        elements: [
+                            { kind: 'NumberLiteral', value: 1 },
+                            { kind: 'StringLiteral', value: '2' },
+                        ],
+                    },
+                ],
+            },
+        };
+
+        const generator = new FilterGenerator(mockColumnMap);
+        const result = generator.generate(ast);
+
+        expect(mockNotInArray).toHaveBeenCalledWith(mockUsersTable.id, [1, '2']);
+        expect(result).toBe('notInArray(users.id, [1,"2"])');
+    });
+
+    it('should pass boolean and null literals as real JS values', () => {
+        const ast: Program = {
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'and',
+                args: [
+                    {
+                        kind: 'CallExpression',
+                        functionName: 'eq',
+                        args: [
+                            { kind: 'StringLiteral', value: 'name' },
+                            { kind: 'BooleanLiteral', value: true },
+                        ],
+                    },
+                    {
+                        kind: 'CallExpression',
+                        functionName: 'eq',
+                        args: [
+                            { kind: 'StringLiteral', value: 'email' },
+                            { kind: 'NullLiteral', value: null },
+                        ],
+                    },
+                ],
+            },
+        };
+
+        const generator = new FilterGenerator(mockColumnMap);
+        const result = generator.generate(ast);
+
+        expect(mockEq).toHaveBeenCalledWith(mockUsersTable.name, true);
+        expect(mockEq).toHaveBeenCalledWith(mockUsersTable.email, null);
+        expect(result).toBe('and(eq(users.name, true), eq(users.email, null))');
+    });
+
+    it('should convert a date literal into a Date object', () => {
+        const ast: Program = {
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'gt',
+                args: [
+                    { kind: 'StringLiteral', value: 'age' },
+                    { kind: 'DateLiteral', value: '2024-01-01T00:00:00.000Z' },
+                ],
+            },
+        };
+
+        const generator = new FilterGenerator(mockColumnMap);
+        generator.generate(ast);
+
+        const value = mockGt.mock.calls[0]![1];
+        expect(value).toBeInstanceOf(Date);
+        expect((value as unknown as Date).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should coerce literal values to the data type of a typed column', () => {
+        const typedColumnMap: ColumnMap = {
+            age: { __name: 'users.age', name: 'age', dataType: 'number', columnType: 'PgInteger' } as unknown as AnyColumn,
+        };
+        const ast: Program = {
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'inArray',
+                args: [
+                    { kind: 'StringLiteral', value: 'age' },
+                    {
+                        kind: 'ArrayLiteral',
+                        elements: [
+                            { kind: 'StringLiteral', value: '30' },
+                            { kind: 'NumberLiteral', value: 40 },
+                        ],
+                    },
+                ],
+            },
+        };
+
+        const generator = new FilterGenerator(typedColumnMap);
+        generator.generate(ast);
+        expect(mockInArray).toHaveBeenCalledWith(typedColumnMap['age'], [30, 40]);
+
+        const uncoerced = new FilterGenerator(typedColumnMap, { coerceValues: false });
+        uncoerced.generate(ast);
+        expect(mockInArray).toHaveBeenLastCalledWith(typedColumnMap['age'], ['30', 40]);
+    });
+
+    it('should throw CoercionError for a value that does not fit the column type', () => {
+        const typedColumnMap: ColumnMap = {
+            age: { __name: 'users.age', name: 'age', dataType: 'number', columnType: 'PgInteger' } as unknown as AnyColumn,
+        };
+        const ast: Program = {
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'eq',
+                args: [
+                    { kind: 'StringLiteral', value: 'age' },
+                    { kind: 'StringLiteral', value: 'abc' },
+                ],
+            },
+        };
+
+        const generator = new FilterGenerator(typedColumnMap);
+        expect(() => generator.generate(ast)).toThrow(CoercionError);
+        expect(mockEq).not.toHaveBeenCalled();
+    });
+
+    it('should resolve column references to columns', () => {
+        const ast: Program = {
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'gt',
+                args: [
+                    { kind: 'ColumnReference', name: 'price' },
+                    { kind: 'ColumnReference', name: 'age' },
+                ],
+            },
+        };
+
+        const generator = new FilterGenerator(mockColumnMap);
+        generator.generate(ast);
+        expect(mockGt).toHaveBeenCalledWith(mockUsersTable.price, mockUsersTable.age);
+    });
+
+    it('should throw ParserError for a column reference not in the columnMap', () => {
+        const ast: Program = {
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'eq',
+                args: [
+                    { kind: 'ColumnReference', name: 'nme', start: 3, end: 6 },
+                    { kind: 'StringLiteral', value: 'Alice' },
+                ],
+            },
+        };
+
+        const generator = new FilterGenerator(mockColumnMap);
+        expect(() => generator.generate(ast)).toThrow("Unknown column 'nme'.");
+        try {
+            generator.generate(ast);
+        } catch (e) {
+            expect(e).toMatchObject({ code: 'UNKNOWN_COLUMN', span: { start: 3, end: 6 } });
+        }
+    });
+
+    it('should treat quoted strings as values in strict mode', () => {
+        const ast: Program = {
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'eq',
+                args: [
+                    { kind: 'ColumnReference', name: 'name' },
+                    { kind: 'StringLiteral', value: 'email' },
+                ],
+            },
+        };
+
+        new FilterGenerator(mockColumnMap).generate(ast);
+        expect(mockEq).toHaveBeenLastCalledWith(mockUsersTable.name, mockUsersTable.email);
+
+        new FilterGenerator(mockColumnMap, { strict: true }).generate(ast);
+        expect(mockEq).toHaveBeenLastCalledWith(mockUsersTable.name, 'email');
+    });
+
+    it('should generate ne, notLike and arrayContains filters', () => {
+        const typedColumnMap: ColumnMap = {
+            age: { __name: 'users.age', name: 'age', dataType: 'number', columnType: 'PgInteger' } as unknown as AnyColumn,
+            name: { __name: 'users.name', name: 'name', dataType: 'string', columnType: 'PgText' } as unknown as AnyColumn,
+            tags: { __name: 'users.tags', name: 'tags', dataType: 'array', columnType: 'PgArray' } as unknown as AnyColumn,
+        };
+        const generator = new FilterGenerator(typedColumnMap);
+        const program = (functionName: string, args: Program['expression']['args']): Program => ({
+            kind: 'Program',
+            expression: { kind: 'CallExpression', functionName, args },
+        });
+
+        generator.generate(program('ne', [{ kind: 'StringLiteral', value: 'age' }, { kind: 'StringLiteral', value: '30' }]));
+        expect(mockNe).toHaveBeenCalledWith(typedColumnMap['age'], 30);
+
+        generator.generate(program('notLike', [{ kind: 'ColumnReference', name: 'name' }, { kind: 'StringLiteral', value: 'A%' }]));
+        expect(mockNotLike).toHaveBeenCalledWith(typedColumnMap['name'], 'A%');
+
+        generator.generate(program('arrayContains', [
+            { kind: 'StringLiteral', value: 'tags' },
+            { kind: 'ArrayLiteral', elements: [{ kind: 'StringLiteral', value: 'a' }, { kind: 'StringLiteral', value: 'b' }] },
+        ]));
+        expect(mockArrayContains).toHaveBeenCalledWith(typedColumnMap['tags'], ['a', 'b']);
+    });
 });
\ No newline at end of file
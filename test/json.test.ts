@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { SQL } from "drizzle-orm";
+import { integer, PgDialect, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { FILTER_JSON_SCHEMA, JSONFilterError, programFromJSON, programToJSON } from "../src/json";
+import { Lexer } from "../src/lexer";
+import { Parser } from "../src/parser";
+import { PolicyViolationError } from "../src/policy";
+import { convertJSONToDrizzleFilter, convertStringToDrizzleFilter } from "../src";
+
+const users = pgTable('users', {
+    id: serial('id').primaryKey(),
+    name: text('name'),
+    age: integer('age'),
+});
+
+const columnMap = { id: users.id, name: users.name, age: users.age };
+
+const dialect = new PgDialect();
+
+const parse = (input: string) => new Parser(new Lexer(input), { locations: false }).parse();
+
+const eqName = {
+    kind: 'CallExpression',
+    functionName: 'eq',
+    args: [{ kind: 'ColumnReference', name: 'name' }, { kind: 'StringLiteral', value: 'Ann' }],
+};
+
+describe('programFromJSON', () => {
+    it('should read a Program or a single CallExpression', () => {
+        expect(programFromJSON({ kind: 'Program', expression: eqName })).toEqual(parse('eq(name, "Ann")'));
+        expect(programFromJSON(eqName)).toEqual(parse('eq(name, "Ann")'));
+    });
+
+    it('should read every kind of node', () => {
+        const json = JSON.parse(JSON.stringify(programToJSON(parse(
+            'and(inArray(id, [1, "2", true, null, date("2024-01-01")]), not(isNull(col("first name"))), gt(age, -1.5), eq(tenantId, $tenant))',
+        ))));
+
+        expect(programFromJSON(json)).toEqual(json);
+    });
+
+    it.each([
+        [null, '', 'expected an object.'],
+        [{ kind: 'Program' }, '', "missing property 'expression'."],
+        [{ ...eqName, start: 0 }, '/start', "unknown property 'start'."],
+        [{ ...eqName, functionName: 'is null' }, '/functionName', "'functionName' must be an identifier string."],
+        [{ ...eqName, args: {} }, '/args', 'expected an array.'],
+        [{ ...eqName, args: [{ kind: 'Program' }] }, '/args/0/kind', "'kind' must be one of 'CallExpression', 'ColumnReference', 'ArrayLiteral', 'Placeholder', 'StringLiteral', 'NumberLiteral', 'BooleanLiteral', 'NullLiteral', 'DateLiteral'."],
+        [{ ...eqName, args: [{ kind: 'ColumnReference', name: 1 }] }, '/args/0/name', "'name' must be a string."],
+        [{ ...eqName, args: [{ kind: 'NumberLiteral', value: '1' }] }, '/args/0/value', "'value' must be a finite number."],
+        [{ ...eqName, args: [{ kind: 'DateLiteral', value: 'soon' }] }, '/args/0/value', "'value' must be a date string."],
+        [{ ...eqName, args: [{ kind: 'ArrayLiteral', elements: [{ kind: 'ColumnReference', name: 'a' }] }] }, '/args/0/elements/0/kind', "'kind' must be one of 'StringLiteral', 'NumberLiteral', 'BooleanLiteral', 'NullLiteral', 'DateLiteral'."],
+        [{ ...eqName, args: [{ kind: 'Placeholder', name: 'a.b' }] }, '/args/0/name', "'name' must be a placeholder name (letters, digits and underscores)."],
+        [{ ...eqName, args: [{ kind: 'NullLiteral', value: null, 'a/b': 1 }] }, '/args/0/a~1b', "unknown property 'a/b'."],
+    ])('should reject %j', (json, path, message) => {
+        let error: unknown;
+        try {
+            programFromJSON(json);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(JSONFilterError);
+        expect(error).toMatchObject({ code: 'INVALID_JSON', path, message: `Invalid filter JSON at ${path || 'the root'}: ${message}` });
+    });
+
+    it('should enforce maxDepth', () => {
+        const json = { kind: 'CallExpression', functionName: 'not', args: [eqName] };
+
+        expect(() => programFromJSON(json, { maxDepth: 1 })).toThrow(PolicyViolationError);
+        expect(() => programFromJSON(json, { maxDepth: 2 })).not.toThrow();
+    });
+});
+
+describe('programToJSON', () => {
+    it('should drop source spans', () => {
+        const program = new Parser(new Lexer('eq(name, "Ann")')).parse();
+
+        expect(programToJSON(program)).toEqual({ kind: 'Program', expression: eqName });
+    });
+});
+
+describe('FILTER_JSON_SCHEMA', () => {
+    it('should describe every node kind', () => {
+        expect(Object.keys(FILTER_JSON_SCHEMA.$defs).sort()).toEqual([
+            'Argument', 'ArrayLiteral', 'BooleanLiteral', 'CallExpression', 'ColumnReference', 'DateLiteral',
+            'NullLiteral', 'NumberLiteral', 'Placeholder', 'Program', 'ScalarLiteral', 'StringLiteral',
+        ]);
+        expect(JSON.parse(JSON.stringify(FILTER_JSON_SCHEMA))).toEqual(FILTER_JSON_SCHEMA);
+    });
+});
+
+describe('convertJSONToDrizzleFilter', () => {
+    it('should generate the same filter as the equivalent string', () => {
+        const json = { kind: 'CallExpression', functionName: 'and', args: [eqName, { kind: 'CallExpression', functionName: 'gt', args: [{ kind: 'ColumnReference', name: 'age' }, { kind: 'NumberLiteral', value: 30 }] }] };
+
+        expect(dialect.sqlToQuery(convertJSONToDrizzleFilter(json, columnMap) as SQL))
+            .toEqual(dialect.sqlToQuery(convertStringToDrizzleFilter('and(eq(name, "Ann"), gt(age, 30))', columnMap) as SQL));
+    });
+
+    it('should apply the policy and validation', () => {
+        expect(() => convertJSONToDrizzleFilter(eqName, columnMap, { policy: { operators: ['gt'] } })).toThrow(PolicyViolationError);
+        expect(() => convertJSONToDrizzleFilter({ ...eqName, functionName: 'eqq' }, columnMap, { validate: true })).toThrow("Unsupported Drizzle ORM function: 'eqq'");
+    });
+});
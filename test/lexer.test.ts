@@ -6,59 +6,59 @@ describe('Lexer', () => {
         const input = 'eq("a", "b")';
         const lexer = new Lexer(input);
 
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 0 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 2 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'a', position: 3 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 6 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'b', position: 8 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 11 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 12 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 0, end: 2 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 2, end: 3 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'a', position: 3, end: 6 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 6, end: 7 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'b', position: 8, end: 11 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 11, end: 12 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 12, end: 12 })
     })
 
     it('should correctly tokenize a complex logical expression', () => {
         const input = 'and(or(eq("a", "b"), like("c", "d")), gt("e", "f"))';
         const lexer = new Lexer(input);
 
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'and', position: 0 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 3 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'or', position: 4 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 6 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 7 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 9 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'a', position: 10 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 13 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'b', position: 15 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 18 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 19 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'like', position: 21 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 25 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'c', position: 26 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 29 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'd', position: 31 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 34 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 35 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 36 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'gt', position: 38 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 40 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'e', position: 41 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 44 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'f', position: 46 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 49 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 50 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 51 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'and', position: 0, end: 3 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 3, end: 4 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'or', position: 4, end: 6 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 6, end: 7 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 7, end: 9 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 9, end: 10 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'a', position: 10, end: 13 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 13, end: 14 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'b', position: 15, end: 18 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 18, end: 19 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 19, end: 20 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'like', position: 21, end: 25 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 25, end: 26 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'c', position: 26, end: 29 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 29, end: 30 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'd', position: 31, end: 34 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 34, end: 35 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 35, end: 36 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 36, end: 37 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'gt', position: 38, end: 40 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 40, end: 41 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'e', position: 41, end: 44 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 44, end: 45 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'f', position: 46, end: 49 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 49, end: 50 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 50, end: 51 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 51, end: 51 });
     })
 
     it('should ignore whitespace', () => {
         const input = '  eq ( "test" , "value" )  ';
         const lexer = new Lexer(input);
 
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 2 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 5 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'test', position: 7 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 14 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'value', position: 16 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 24 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 27 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 2, end: 4 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 5, end: 6 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'test', position: 7, end: 13 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 14, end: 15 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'value', position: 16, end: 23 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 24, end: 25 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 27, end: 27 });
     });
 
     it('should throw an error for unclosed string literal', () => {
@@ -75,13 +75,13 @@ describe('Lexer', () => {
     it('should handle empty input', () => {
         const input = ''
         const lexer = new Lexer(input);
-        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 0 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 0, end: 0 });
     })
 
     it('should handle input with only whitespace', () => {
         const input = '   \t\n'
         const lexer = new Lexer(input);
-        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 5 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 5, end: 5 });
     })
 
     // it('should return UNKNOWN token for unsupported characters', () => {
@@ -90,22 +90,22 @@ describe('Lexer', () => {
 
     //     lexer.nextToken(); // eq
     //     lexer.nextToken(); // (
-    //     expect(lexer.nextToken()).toEqual({ type: TokenType.Unknown, value: '1', position: 3 })
-    //     expect(lexer.nextToken()).toEqual({ type: TokenType.Unknown, value: '2', position: 4 })
-    //     expect(lexer.nextToken()).toEqual({ type: TokenType.Unknown, value: '3', position: 5 })
+    //     expect(lexer.nextToken()).toEqual({ type: TokenType.Unknown, value: '1', position: 3, end: 4 })
+    //     expect(lexer.nextToken()).toEqual({ type: TokenType.Unknown, value: '2', position: 4, end: 5 })
+    //     expect(lexer.nextToken()).toEqual({ type: TokenType.Unknown, value: '3', position: 5, end: 6 })
     // })
 
     it('should correctly tokenize expression with numbers as part of identifiers or arguments if allowed', () => {
         const input = 'gt("user123", "value42")';
         const lexer = new Lexer(input);
 
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'gt', position: 0 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 2 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'user123', position: 3 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 12 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'value42', position: 14 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 23 })
-        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 24 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'gt', position: 0, end: 2 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 2, end: 3 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'user123', position: 3, end: 12 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 12, end: 13 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'value42', position: 14, end: 23 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 23, end: 24 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 24, end: 24 })
     })
 
     it('should reset position correctly', () => {
@@ -115,19 +115,113 @@ describe('Lexer', () => {
         lexer.nextToken(); // eq
         lexer.nextToken(); // (
         lexer.reset();
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 0 })
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 0, end: 2 })
     })
 
     it('should correctly tokenize integer numbers', () => {
         const input = 'eq("age", 30)';
         const lexer = new Lexer(input);
 
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 0 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 2 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'age', position: 3 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 8 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.NumberLiteral, value: '30', position: 10 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 12 });
-        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 13 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 0, end: 2 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 2, end: 3 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'age', position: 3, end: 8 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 8, end: 9 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.NumberLiteral, value: '30', position: 10, end: 12 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 12, end: 13 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 13, end: 13 });
     });
-})
\ No newline at end of file
+
+    it('should tokenize array literal brackets', () => {
+        const input = 'inArray("status", ["a", 2])';
+        const lexer = new Lexer(input);
+
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'inArray', position: 0, end: 7 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LParen, value: '(', position: 7, end: 8 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'status', position: 8, end: 16 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 16, end: 17 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.LBracket, value: '[', position: 18, end: 19 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'a', position: 19, end: 22 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 22, end: 23 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.NumberLiteral, value: '2', position: 24, end: 25 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RBracket, value: ']', position: 25, end: 26 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.RParen, value: ')', position: 26, end: 27 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 27, end: 27 });
+    });
+
+    it('should tokenize infix comparison operators', () => {
+        const input = 'a = 1 != <> < <= > >=';
+        const lexer = new Lexer(input);
+
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'a', position: 0, end: 1 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Operator, value: '=', position: 2, end: 3 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.NumberLiteral, value: '1', position: 4, end: 5 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Operator, value: '!=', position: 6, end: 8 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Operator, value: '<>', position: 9, end: 11 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Operator, value: '<', position: 12, end: 13 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Operator, value: '<=', position: 14, end: 16 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Operator, value: '>', position: 17, end: 18 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Operator, value: '>=', position: 19, end: 21 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.EOF, value: '', position: 21, end: 21 });
+    });
+
+    it('should tokenize identifiers containing underscores and digits', () => {
+        const lexer = new Lexer('_created_at2 >= 1');
+
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: '_created_at2', position: 0, end: 12 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Operator, value: '>=', position: 13, end: 15 });
+    });
+
+    it('should tokenize dotted paths as a single identifier', () => {
+        const lexer = new Lexer('organization.owner.email a.');
+
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'organization.owner.email', position: 0, end: 24 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'a', position: 25, end: 26 });
+    });
+
+    it('should keep escape sequences in string literals', () => {
+        const lexer = new Lexer('"say \\"hi\\" \\\\ 100\\%"');
+
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'say \\"hi\\" \\\\ 100\\%', position: 0, end: 21 });
+    });
+
+    it('should read a doubled quote in a string literal as one quote', () => {
+        const lexer = new Lexer('"say ""hi""" "" """"');
+
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: 'say "hi"', position: 0, end: 12 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: '', position: 13, end: 15 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.StringLiteral, value: '"', position: 16, end: 20 });
+    });
+
+    it('should tokenize negative numbers and exponents', () => {
+        const lexer = new Lexer('-5 1e+21 2.5E-7 1e');
+
+        expect(lexer.nextToken()).toEqual({ type: TokenType.NumberLiteral, value: '-5', position: 0, end: 2 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.NumberLiteral, value: '1e+21', position: 3, end: 8 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.NumberLiteral, value: '2.5E-7', position: 9, end: 15 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.NumberLiteral, value: '1', position: 16, end: 17 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'e', position: 17, end: 18 });
+    });
+
+    it('should tokenize placeholders', () => {
+        const lexer = new Lexer('$tenant_1, $ $.a');
+
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Placeholder, value: 'tenant_1', position: 0, end: 9 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Comma, value: ',', position: 9, end: 10 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Unknown, value: '$', position: 11, end: 12 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Unknown, value: '$', position: 13, end: 14 });
+    });
+
+    it('should return an UNKNOWN token for a lone exclamation mark', () => {
+        const lexer = new Lexer('!a');
+
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Unknown, value: '!', position: 0, end: 1 });
+    });
+
+    it('should peek at the next token without consuming it', () => {
+        const lexer = new Lexer('eq("a", 1)');
+
+        expect(lexer.peekToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 0, end: 2 });
+        expect(lexer.nextToken()).toEqual({ type: TokenType.Identifier, value: 'eq', position: 0, end: 2 });
+        expect(lexer.peekToken()).toEqual({ type: TokenType.LParen, value: '(', position: 2, end: 3 });
+    });
+})
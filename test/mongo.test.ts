@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { SQL } from "drizzle-orm";
+import { integer, PgDialect, pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
+import { JSONFilterError } from "../src/json";
+import { programFromMongo } from "../src/mongo";
+import { PolicyViolationError } from "../src/policy";
+import { Printer } from "../src/printer";
+import { convertProgramToDrizzleFilter, convertStringToDrizzleFilter } from "../src";
+
+const print = (query: unknown) => new Printer().print(programFromMongo(query));
+
+describe('programFromMongo', () => {
+    it('should translate field conditions', () => {
+        expect(print({ name: 'Bob' })).toBe('eq(name, "Bob")');
+        expect(print({ age: { $gt: 25 } })).toBe('gt(age, 25)');
+        expect(print({ age: { $gte: 18, $lt: 65 }, active: true })).toBe('and(and(gte(age, 18), lt(age, 65)), eq(active, true))');
+        expect(print({ status: { $in: ['a', 'b'] }, role: { $nin: ['admin'] } })).toBe('and(inArray(status, ["a", "b"]), notInArray(role, ["admin"]))');
+        expect(print({ tags: { $all: ['x'] } })).toBe('arrayContains(tags, ["x"])');
+        expect(print({ 'organization.name': { $ne: 'Acme' } })).toBe('ne(organization.name, "Acme")');
+    });
+
+    it('should translate null checks and $exists', () => {
+        expect(print({ email: null })).toBe('isNull(email)');
+        expect(print({ email: { $ne: null } })).toBe('isNotNull(email)');
+        expect(print({ email: { $exists: true } })).toBe('isNotNull(email)');
+        expect(print({ email: { $exists: false } })).toBe('isNull(email)');
+    });
+
+    it('should translate logical operators', () => {
+        expect(print({ $or: [{ age: { $lt: 18 } }, { age: { $gt: 65 } }] })).toBe('or(lt(age, 18), gt(age, 65))');
+        expect(print({ $and: [{ a: 1 }], $nor: [{ b: 2 }, { c: 3 }] })).toBe('and(and(eq(a, 1)), not(or(eq(b, 2), eq(c, 3))))');
+        expect(print({ age: { $not: { $gt: 25 } } })).toBe('not(gt(age, 25))');
+    });
+
+    it('should read dates', () => {
+        expect(print({ createdAt: { $gte: { $date: '2024-01-01' } } })).toBe('gte(createdAt, date("2024-01-01"))');
+        expect(print({ createdAt: new Date('2024-01-01T00:00:00Z') })).toBe('eq(createdAt, date("2024-01-01T00:00:00.000Z"))');
+    });
+
+    it.each([
+        [[], '', 'expected a query object.'],
+        [{}, '', 'expected at least one condition.'],
+        [{ $where: 'x' }, '/$where', "unsupported query operator '$where'."],
+        [{ name: { $regex: 'a' } }, '/name/$regex', "unsupported operator '$regex'."],
+        [{ $or: [] }, '/$or', 'expected a non-empty array of queries.'],
+        [{ age: { $in: 1 } }, '/age/$in', "'$in' expects an array."],
+        [{ tags: ['a'] }, '/tags', 'expected a string, number, boolean, null or date value.'],
+        [{ 'a/b': { $not: 1 } }, '/a~1b/$not', "'$not' expects an object of operators."],
+    ])('should reject %j', (query, path, message) => {
+        expect(() => programFromMongo(query)).toThrow(JSONFilterError);
+        expect(() => programFromMongo(query)).toThrow(`Invalid filter JSON at ${path || 'the root'}: ${message}`);
+    });
+
+    it('should enforce maxDepth', () => {
+        const query = { $or: [{ $and: [{ a: 1 }] }] };
+
+        expect(() => programFromMongo(query, { maxDepth: 1 })).toThrow(PolicyViolationError);
+        expect(() => programFromMongo(query, { maxDepth: 2 })).not.toThrow();
+    });
+
+    it('should generate the same filter as the equivalent string', () => {
+        const users = pgTable('users', { id: serial('id'), name: text('name'), age: integer('age'), createdAt: timestamp('created_at') });
+        const columnMap = { name: users.name, age: users.age, createdAt: users.createdAt };
+        const dialect = new PgDialect();
+
+        const filter = convertProgramToDrizzleFilter(programFromMongo({ name: 'Bob', age: { $gt: 25 } }), columnMap, { strict: true });
+
+        expect(dialect.sqlToQuery(filter as SQL))
+            .toEqual(dialect.sqlToQuery(convertStringToDrizzleFilter('and(eq(name, "Bob"), gt(age, 25))', columnMap) as SQL));
+    });
+});
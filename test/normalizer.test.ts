@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { SQL, sql } from "drizzle-orm";
+import { integer, PgDialect, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { Argument, CallExpression, Program, ScalarLiteral } from "../src/ast";
+import { Evaluator } from "../src/evaluator";
+import { Lexer } from "../src/lexer";
+import { Normalizer, NormalizerOptions } from "../src/normalizer";
+import { createOperatorRegistry } from "../src/operators";
+import { Parser } from "../src/parser";
+import { Printer } from "../src/printer";
+import { convertStringToDrizzleFilter } from "../src";
+
+const parse = (input: string) => new Parser(new Lexer(input)).parse();
+const normalize = (input: string, options: NormalizerOptions = { strict: true }) =>
+    new Printer().print(new Normalizer(options).normalize(parse(input)));
+
+describe('Normalizer', () => {
+    it('should flatten nested and/or and unwrap single conditions', () => {
+        expect(normalize('and(and(eq(a, 1)), and(gt(b, 2), or(lt(c, 3))))')).toBe('and(eq(a, 1), gt(b, 2), lt(c, 3))');
+        expect(normalize('or(or(eq(a, 1), eq(b, 2)), and(eq(c, 3), eq(d, 4)))')).toBe('or(and(eq(c, 3), eq(d, 4)), eq(a, 1), eq(b, 2))');
+    });
+
+    it('should remove double negation and push not through and/or', () => {
+        expect(normalize('and(and(eq(a, 1)), not(not(eq(b, 2))))')).toBe('and(eq(a, 1), eq(b, 2))');
+        expect(normalize('not(and(eq(a, 1), or(eq(b, 2), not(eq(c, 3)))))')).toBe('or(and(eq(c, 3), not(eq(b, 2))), not(eq(a, 1)))');
+        expect(normalize('not(not(not(isNull(a))))')).toBe('not(isNull(a))');
+    });
+
+    it('should dedupe identical conditions and sort them', () => {
+        expect(normalize('and(eq(b, 2), eq(a, 1), eq(b, 2))')).toBe('and(eq(a, 1), eq(b, 2))');
+        expect(normalize('or(eq(a, 1), eq(a, 1))')).toBe('eq(a, 1)');
+        expect(normalize('and(eq(a, 1), gt(b, 2))')).toBe(normalize('and(gt(b, 2), and(eq(a, 1)))'));
+    });
+
+    it('should fold eq disjunctions of the same column into inArray', () => {
+        expect(normalize('or(eq("s", "a"), eq("s", "b"))')).toBe('inArray("s", ["a", "b"])');
+        expect(normalize('or(eq(s, "b"), eq(t, 1), inArray(s, ["c", "a"]), eq(s, "b"))')).toBe('or(eq(t, 1), inArray(s, ["a", "b", "c"]))');
+        expect(normalize('or(eq(s, 1), inArray(s, [1]))')).toBe('eq(s, 1)');
+        expect(normalize('and(eq(s, "a"), eq(s, "b"))')).toBe('and(eq(s, "a"), eq(s, "b"))');
+        expect(normalize('not(and(ne(s, "a"), not(eq(s, "b"))))')).toBe('or(eq(s, "b"), not(ne(s, "a")))');
+    });
+
+    it('should not fold quoted strings that may name columns outside strict mode', () => {
+        const users = pgTable('users', { id: serial('id'), status: text('status'), previous: text('previous') });
+        const columnMap = { status: users.status, previous: users.previous };
+
+        expect(normalize('or(eq(status, "a"), eq(status, "b"))', {})).toBe('or(eq(status, "a"), eq(status, "b"))');
+        expect(normalize('or(eq(status, "a"), eq(status, "b"))', { columnMap })).toBe('inArray(status, ["a", "b"])');
+        expect(normalize('or(eq(status, "previous"), eq(status, "b"))', { columnMap })).toBe('or(eq(status, "b"), eq(status, "previous"))');
+        expect(normalize('or(eq(status, 1), eq(status, 2))', {})).toBe('inArray(status, [1, 2])');
+    });
+
+    it('should only fold when the registry has the built-in eq and inArray', () => {
+        const withoutInArray = createOperatorRegistry().unregister('inArray');
+        const customEq = createOperatorRegistry().register('eq', { signature: { params: ['column', 'value'] }, build: (column, value) => sql`${column} ~ ${value}` });
+
+        expect(normalize('or(eq(s, 1), eq(s, 2))', { strict: true, operators: createOperatorRegistry() })).toBe('inArray(s, [1, 2])');
+        expect(normalize('or(eq(s, 1), eq(s, 2))', { strict: true, operators: withoutInArray })).toBe('or(eq(s, 1), eq(s, 2))');
+        expect(normalize('or(eq(s, 1), eq(s, 2))', { strict: true, operators: customEq })).toBe('or(eq(s, 1), eq(s, 2))');
+    });
+
+    it('should drop empty groups and keep calls it does not understand', () => {
+        expect(normalize('and(and(), or(), eq(a, 1))')).toBe('eq(a, 1)');
+        expect(normalize('or(and())')).toBe('and()');
+        expect(normalize('not(search(a, "x"))')).toBe('not(search(a, "x"))');
+        expect(normalize('and(not(eq(a, 1), eq(b, 2)), or(a))')).toBe('and(not(eq(a, 1), eq(b, 2)), or(a))');
+    });
+
+    it('should keep the spans of unchanged comparisons and not modify its input', () => {
+        const ast = parse('and(and(eq(a, 1)), gt(b, 2))');
+        const printed = new Printer().print(ast);
+        const normalized = new Normalizer().normalize(ast);
+
+        expect(normalized.expression.args[0]).toMatchObject({ functionName: 'eq', start: 8, end: 16 });
+        expect(new Printer().print(ast)).toBe(printed);
+    });
+
+    it('should be idempotent and preserve the meaning of random filters', () => {
+        let seed = 7;
+        const random = (n: number) => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return seed % n;
+        };
+        const pick = <T>(values: T[]): T => values[random(values.length)]!;
+        const column = (): Argument => ({ kind: 'ColumnReference', name: pick(['a', 'b']) });
+        const value = (): ScalarLiteral => random(4) === 0 ? { kind: 'NullLiteral', value: null } : { kind: 'NumberLiteral', value: random(3) };
+        const condition = (depth: number): CallExpression => {
+            if (depth > 0 && random(3) > 0) {
+                const functionName = pick(['and', 'or', 'not']);
+                const count = functionName === 'not' ? 1 : random(4);
+                return { kind: 'CallExpression', functionName, args: Array.from({ length: count }, () => condition(depth - 1)) };
+            }
+            switch (random(4)) {
+                case 0: return { kind: 'CallExpression', functionName: 'inArray', args: [column(), { kind: 'ArrayLiteral', elements: [value(), value()] }] };
+                case 1: return { kind: 'CallExpression', functionName: 'isNull', args: [column()] };
+                default: return { kind: 'CallExpression', functionName: pick(['eq', 'eq', 'gt']), args: [column(), value()] };
+            }
+        };
+        const records = [null, 0, 1, 2].flatMap(a => [null, 0, 1, 2].map(b => ({ a, b })));
+        const evaluator = new Evaluator({ strict: true });
+        const normalizer = new Normalizer({ strict: true });
+
+        for (let i = 0; i < 300; i++) {
+            const program: Program = { kind: 'Program', expression: condition(4) };
+            const normalized = normalizer.normalize(program);
+
+            expect(normalizer.normalize(normalized)).toEqual(normalized);
+            for (const record of records) {
+                expect(evaluator.evaluateTruth(normalized, record)).toBe(evaluator.evaluateTruth(program, record));
+            }
+        }
+    });
+});
+
+describe('convertStringToDrizzleFilter with normalize', () => {
+    it('should generate the SQL of the normalized filter', () => {
+        const users = pgTable('users', { id: serial('id'), status: text('status'), age: integer('age') });
+        const columnMap = { status: users.status, age: users.age };
+        const dialect = new PgDialect();
+
+        const filter = convertStringToDrizzleFilter('and(and(gt(age, 1)), or(eq(status, "a"), eq(status, "b")))', columnMap, { normalize: true });
+
+        expect(dialect.sqlToQuery(filter as SQL)).toMatchObject({
+            sql: '("users"."age" > $1 and "users"."status" in ($2, $3))',
+            params: [1, 'a', 'b'],
+        });
+    });
+
+    it('should check the policy and the registry against the normalized filter', () => {
+        const users = pgTable('users', { id: serial('id'), age: integer('age') });
+        const columnMap = { age: users.age };
+        const filter = 'or(eq(age, 2), eq(age, 1), eq(age, 3))';
+
+        expect(() => convertStringToDrizzleFilter(filter, columnMap, { normalize: true, policy: { maxArrayLength: 2 } }))
+            .toThrow(expect.objectContaining({ code: 'MAX_ARRAY_LENGTH_EXCEEDED' }));
+        expect(convertStringToDrizzleFilter(filter, columnMap, { normalize: true, policy: { maxArrayLength: 3 } })).toBeDefined();
+
+        const operators = createOperatorRegistry().unregister('inArray');
+        expect(convertStringToDrizzleFilter(filter, columnMap, { normalize: true, validate: true, operators })).toBeDefined();
+    });
+});
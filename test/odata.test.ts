@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { programFromOData } from "../src/odata";
+import { ParserError } from "../src/parser";
+import { PolicyViolationError } from "../src/policy";
+import { Printer } from "../src/printer";
+
+const print = (filter: string) => new Printer().print(programFromOData(filter));
+
+describe('programFromOData', () => {
+    it('should translate comparisons', () => {
+        expect(print("age gt 25 and name eq 'Bob'")).toBe('and(gt(age, 25), eq(name, "Bob"))');
+        expect(print('a ne 1 or b ge -1.5 or c le 2 or d lt 3')).toBe('or(ne(a, 1), gte(b, -1.5), lte(c, 2), lt(d, 3))');
+        expect(print("status in ('a', 'b')")).toBe('inArray(status, ["a", "b"])');
+        expect(print('price gt cost')).toBe('gt(price, cost)');
+        expect(print('organization/name eq true')).toBe('eq(organization.name, true)');
+    });
+
+    it('should translate literals', () => {
+        expect(print("name eq 'O''Brien'")).toBe('eq(name, "O\'Brien")');
+        expect(print('createdAt ge 2024-01-01 and updatedAt lt 2024-01-01T10:00:00Z')).toBe(
+            'and(gte(createdAt, date("2024-01-01")), lt(updatedAt, date("2024-01-01T10:00:00Z")))',
+        );
+        expect(print('email eq null and phone ne null')).toBe('and(isNull(email), isNotNull(phone))');
+    });
+
+    it('should respect precedence, parentheses and not', () => {
+        expect(print('a eq 1 or b eq 2 and c eq 3')).toBe('or(eq(a, 1), and(eq(b, 2), eq(c, 3)))');
+        expect(print('(a eq 1 or b eq 2) and not c eq 3')).toBe('and(or(eq(a, 1), eq(b, 2)), not(eq(c, 3)))');
+        expect(print('A EQ 1 AND NOT (B Eq 2)')).toBe('and(eq(A, 1), not(eq(B, 2)))');
+    });
+
+    it('should translate string functions to escaped like patterns', () => {
+        expect(print("contains(name, 'bo') or startswith(name, '50%') or endswith(name, 'a_b')"))
+            .toBe('or(like(name, "%bo%"), like(name, "50\\%%"), like(name, "%a\\_b"))');
+    });
+
+    it('should record source spans', () => {
+        const program = programFromOData("age gt 25 and name eq 'Bob'");
+
+        expect(program).toMatchObject({ start: 0, end: 27, expression: { start: 0, end: 27, args: [{ start: 0, end: 9 }, { start: 14, end: 27 }] } });
+    });
+
+    it.each([
+        ['age gt', "Unexpected 'end of input' at position 6. Expected a literal value.", { start: 6, end: 6 }],
+        ['age add 1', "Unsupported OData operator 'add'.", { start: 4, end: 7 }],
+        ["tolower(name) eq 'a'", "Unsupported OData function 'tolower'.", { start: 0, end: 7 }],
+        ['(a eq 1', "Expected ')' to close the group started at position 0.", { start: 7, end: 7 }],
+        ['a eq 1 b', "Unexpected 'b' at position 7. Expected end of input.", { start: 7, end: 8 }],
+        ['a eq #', "Unexpected character '#' at position 5.", { start: 5, end: 6 }],
+        ["a eq 'x", 'Unclosed string literal starting at position 5', { start: 5, end: 7 }],
+        ['a eq 1e400', "Number literal out of range: '1e400'", { start: 5, end: 10 }],
+    ])('should reject %s', (filter, message, span) => {
+        let error: unknown;
+        try {
+            programFromOData(filter);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(ParserError);
+        expect(error).toMatchObject({ message, span });
+    });
+
+    it('should enforce maxDepth', () => {
+        expect(() => programFromOData('not (a eq 1)', { maxDepth: 1 })).toThrow(PolicyViolationError);
+        expect(() => programFromOData('not (a eq 1)', { maxDepth: 2 })).not.toThrow();
+    });
+});
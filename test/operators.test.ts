@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { ilike, or, SQL, sql } from "drizzle-orm";
+import { PgDialect, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { SQLiteSyncDialect } from "drizzle-orm/sqlite-core";
+import { createOperatorRegistry, OPERATOR_SIGNATURES, OperatorRegistry } from "../src/operators";
+import { convertStringToDrizzleFilter, programFromOData, validateFilterString } from "../src";
+import { ColumnMap, FilterGenerator } from "../src/generator";
+
+const users = pgTable('users', {
+    name: text('name'),
+    email: text('email'),
+    createdAt: timestamp('created_at'),
+});
+
+const columnMap: ColumnMap = { name: users.name, email: users.email, createdAt: users.createdAt };
+
+const dialect = new PgDialect();
+
+function toQuery(filter: unknown) {
+    return dialect.sqlToQuery(filter as SQL);
+}
+
+function customRegistry(): OperatorRegistry {
+    return createOperatorRegistry()
+        .register('search', {
+            signature: { params: ['value'] },
+            build: (query) => or(ilike(users.name, sql`'%' || ${query} || '%'`), ilike(users.email, sql`'%' || ${query} || '%'`)),
+        })
+        .register('today', {
+            signature: { params: ['column'], columnDataTypes: ['date'] },
+            build: (column) => sql`${column}::date = current_date`,
+        });
+}
+
+describe('OperatorRegistry', () => {
+    it('should contain the built-in operators', () => {
+        const registry = createOperatorRegistry();
+
+        expect(registry.has('eq')).toBe(true);
+        expect(registry.names()).toContain('arrayOverlaps');
+        expect(registry.get('between')?.signature.params).toEqual(['column', 'value', 'value']);
+    });
+
+    it('should type the arguments of custom builders', () => {
+        // A builder cannot assume a narrower argument type than the generator passes, e.g. a string for a value
+        // that may also be a number or, in compiled filters, a Drizzle placeholder.
+        // @ts-expect-error
+        createOperatorRegistry().register('search', { signature: { params: ['value'] }, build: (query: string) => ilike(users.name, query) });
+    });
+
+    it('should reject names that are not identifiers or are reserved', () => {
+        const definition = { signature: { params: [] }, build: () => undefined };
+
+        expect(() => new OperatorRegistry().register('my-op', definition)).toThrow("Invalid operator name: 'my-op'.");
+        expect(() => new OperatorRegistry().register('date', definition)).toThrow("Invalid operator name: 'date'.");
+    });
+
+    it('should keep clones independent', () => {
+        const registry = createOperatorRegistry();
+        const restricted = registry.clone().unregister('like');
+
+        expect(restricted.has('like')).toBe(false);
+        expect(registry.has('like')).toBe(true);
+    });
+});
+
+describe('custom operators', () => {
+    it('should generate custom operators with processed arguments', () => {
+        const filter = convertStringToDrizzleFilter('and(search("bob"), today(createdAt))', columnMap, { operators: customRegistry() });
+
+        expect(toQuery(filter)).toMatchObject({
+            sql: '(("users"."name" ilike \'%\' || $1 || \'%\' or "users"."email" ilike \'%\' || $2 || \'%\') and "users"."created_at"::date = current_date)',
+            params: ['bob', 'bob'],
+        });
+    });
+
+    it('should reject operators missing from the registry', () => {
+        const operators = createOperatorRegistry().unregister('like');
+
+        // The unregistered operator is also rejected at compile time.
+        // @ts-expect-error
+        expect(() => convertStringToDrizzleFilter('like(name, "a%")', columnMap, { operators }))
+            .toThrow("Unsupported Drizzle ORM function: 'like'.");
+    });
+
+    it('should validate custom operators against their signatures', () => {
+        const diagnostics = validateFilterString('and(search(), today(name))', columnMap, { operators: customRegistry() });
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            "'search' expects 1 argument but got 0.",
+            "'today' cannot be applied to column 'name' of type string.",
+        ]);
+    });
+
+    it('should let like operators declare the escape character of escaped patterns', () => {
+        const operators = createOperatorRegistry()
+            .register('like', { signature: OPERATOR_SIGNATURES.like, build: (column, pattern) => sql`${column} like ${pattern} escape '\\'` });
+        const filter = new FilterGenerator(columnMap, { operators }).generate(programFromOData("contains(name, '50%')"));
+
+        expect(new SQLiteSyncDialect().sqlToQuery(filter as SQL)).toMatchObject({ sql: '"users"."name" like ? escape \'\\\'', params: ['%50\\%%'] });
+    });
+});
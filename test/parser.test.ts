@@ -1,7 +1,8 @@
 import { Lexer } from "../src/lexer";
-import { Parser } from '../src/parser'
+import { Parser, ParserError } from '../src/parser'
+import { Printer } from '../src/printer'
 import { describe, it, expect } from "vitest";
-import { CallExpression, StringLiteral } from "../src/ast";
+import { ArrayLiteral, CallExpression, StringLiteral } from "../src/ast";
 
 describe('Parser', () => {
     it('should parse a simple eq expression', () => {
@@ -16,10 +17,14 @@ describe('Parser', () => {
                 kind: 'CallExpression',
                 functionName: 'eq',
                 args: [
-                    { kind: 'StringLiteral', value: 'a' },
-                    { kind: 'StringLiteral', value: 'b' },
+                    { kind: 'StringLiteral', value: 'a', start: 3, end: 6 },
+                    { kind: 'StringLiteral', value: 'b', start: 8, end: 11 },
                 ],
+                start: 0,
+                end: 12,
             },
+            start: 0,
+            end: 12,
         })
     })
 
@@ -39,20 +44,28 @@ describe('Parser', () => {
                         kind: 'CallExpression',
                         functionName: 'eq',
                         args: [
-                            { kind: 'StringLiteral', value: 'a' },
-                            { kind: 'StringLiteral', value: 'b' },
-                        ]
+                            { kind: 'StringLiteral', value: 'a', start: 7, end: 10 },
+                            { kind: 'StringLiteral', value: 'b', start: 12, end: 15 },
+                        ],
+                        start: 4,
+                        end: 16,
                     },
                     {
                         kind: 'CallExpression',
                         functionName: 'gt',
                         args: [
-                            { kind: 'StringLiteral', value: 'c' },
-                            { kind: 'StringLiteral', value: '10' }, // Numbers are still string literals for now
-                        ]
-                    }
-                ]
-            }
+                            { kind: 'StringLiteral', value: 'c', start: 21, end: 24 },
+                            { kind: 'StringLiteral', value: '10', start: 26, end: 30 }, // Numbers are still string literals for now
+                        ],
+                        start: 18,
+                        end: 31,
+                    },
+                ],
+                start: 0,
+                end: 32,
+            },
+            start: 0,
+            end: 32,
         })
     })
 
@@ -76,19 +89,25 @@ describe('Parser', () => {
                                 kind: 'CallExpression',
                                 functionName: 'eq',
                                 args: [
-                                    { kind: 'StringLiteral', value: 'a' },
-                                    { kind: 'StringLiteral', value: 'b' },
-                                ]
+                                    { kind: 'StringLiteral', value: 'a', start: 10, end: 13 },
+                                    { kind: 'StringLiteral', value: 'b', start: 15, end: 18 },
+                                ],
+                                start: 7,
+                                end: 19,
                             },
                             {
                                 kind: 'CallExpression',
                                 functionName: 'like',
                                 args: [
-                                    { kind: 'StringLiteral', value: 'c' },
-                                    { kind: 'StringLiteral', value: 'd' },
-                                ]
-                            }
-                        ]
+                                    { kind: 'StringLiteral', value: 'c', start: 26, end: 29 },
+                                    { kind: 'StringLiteral', value: 'd', start: 31, end: 34 },
+                                ],
+                                start: 21,
+                                end: 35,
+                            },
+                        ],
+                        start: 4,
+                        end: 36,
                     },
                     {
                         kind: 'CallExpression',
@@ -98,22 +117,32 @@ describe('Parser', () => {
                                 kind: 'CallExpression',
                                 functionName: 'gt',
                                 args: [
-                                    { kind: 'StringLiteral', value: 'e' },
-                                    { kind: 'StringLiteral', value: 'f' },
-                                ]
+                                    { kind: 'StringLiteral', value: 'e', start: 45, end: 48 },
+                                    { kind: 'StringLiteral', value: 'f', start: 50, end: 53 },
+                                ],
+                                start: 42,
+                                end: 54,
                             },
                             {
                                 kind: 'CallExpression',
                                 functionName: 'ilike',
                                 args: [
-                                    { kind: 'StringLiteral', value: 'g' },
-                                    { kind: 'StringLiteral', value: 'h' },
-                                ]
-                            }
-                        ]
-                    }
-                ]
-            }
+                                    { kind: 'StringLiteral', value: 'g', start: 62, end: 65 },
+                                    { kind: 'StringLiteral', value: 'h', start: 67, end: 70 },
+                                ],
+                                start: 56,
+                                end: 71,
+                            },
+                        ],
+                        start: 38,
+                        end: 72,
+                    },
+                ],
+                start: 0,
+                end: 73,
+            },
+            start: 0,
+            end: 73,
         })
     })
 
@@ -140,9 +169,13 @@ describe('Parser', () => {
                 kind: 'CallExpression',
                 functionName: 'isNull',
                 args: [
-                    { kind: 'StringLiteral', value: 'column' }
-                ]
-            }
+                    { kind: 'StringLiteral', value: 'column', start: 7, end: 15 },
+                ],
+                start: 0,
+                end: 16,
+            },
+            start: 0,
+            end: 16,
         })
     })
 
@@ -217,10 +250,14 @@ describe('Parser', () => {
                 kind: 'CallExpression',
                 functionName: 'eq',
                 args: [
-                    { kind: 'StringLiteral', value: 'age' },
-                    { kind: 'NumberLiteral', value: 30 },
+                    { kind: 'StringLiteral', value: 'age', start: 3, end: 8 },
+                    { kind: 'NumberLiteral', value: 30, start: 10, end: 12 },
                 ],
+                start: 0,
+                end: 13,
             },
+            start: 0,
+            end: 13,
         });
     });
 
@@ -236,10 +273,14 @@ describe('Parser', () => {
                 kind: 'CallExpression',
                 functionName: 'gt',
                 args: [
-                    { kind: 'StringLiteral', value: 'price' },
-                    { kind: 'NumberLiteral', value: 99.99 },
+                    { kind: 'StringLiteral', value: 'price', start: 3, end: 10 },
+                    { kind: 'NumberLiteral', value: 99.99, start: 12, end: 17 },
                 ],
+                start: 0,
+                end: 18,
             },
+            start: 0,
+            end: 18,
         });
     });
 
@@ -250,4 +291,465 @@ describe('Parser', () => {
     //     // expect(() => parser.parse()).toThrow(ParserError);
     //     expect(() => parser.parse()).toThrow('Invalid number literal: \'123.4.5\'');
     // });
-})
\ No newline at end of file
+
+    it('should parse an inArray expression with an array literal', () => {
+        const input = 'inArray("status", ["active", "pending", 3])';
+        const lexer = new Lexer(input);
+        const parser = new Parser(lexer);
+        const ast = parser.parse();
+
+        expect(ast).toEqual({
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'inArray',
+                args: [
+                    { kind: 'StringLiteral', value: 'status', start: 8, end: 16 },
+                    {
+                        kind: 'ArrayLiteral',
+                        elements: [
+                            { kind: 'StringLiteral', value: 'active', start: 19, end: 27 },
+                            { kind: 'StringLiteral', value: 'pending', start: 29, end: 38 },
+                            { kind: 'NumberLiteral', value: 3, start: 40, end: 41 },
+                        ],
+                        start: 18,
+                        end: 42,
+                    },
+                ],
+                start: 0,
+                end: 43,
+            },
+            start: 0,
+            end: 43,
+        });
+    });
+
+    it('should parse an empty array literal', () => {
+        const input = 'notInArray("status", [])';
+        const lexer = new Lexer(input);
+        const parser = new Parser(lexer);
+        const ast = parser.parse();
+
+        expect(ast.expression.args[1]).toEqual({
+            kind: 'ArrayLiteral',
+            elements: [],
+            start: 21,
+            end: 23,
+        });
+    });
+
+    it('should throw ParserError for an unclosed array literal', () => {
+        const input = 'inArray("status", ["a", "b")';
+        const lexer = new Lexer(input);
+        const parser = new Parser(lexer);
+
+        expect(() => parser.parse()).toThrow('Expected \']\' to close array literal started at position 18.');
+    });
+
+    it('should throw ParserError for a nested call inside an array literal', () => {
+        const input = 'inArray("status", [eq("a", "b")])';
+        const lexer = new Lexer(input);
+        const parser = new Parser(lexer);
+
+        expect(() => parser.parse()).toThrow(ParserError);
+    });
+
+    it('should parse boolean and null keywords as literals', () => {
+        const input = 'and(eq("isActive", true), eq("isDeleted", false), eq("deletedAt", null))';
+        const lexer = new Lexer(input);
+        const parser = new Parser(lexer);
+        const ast = parser.parse();
+
+        expect((ast.expression.args[0] as CallExpression).args[1]).toEqual({ kind: 'BooleanLiteral', value: true, start: 19, end: 23 });
+        expect((ast.expression.args[1] as CallExpression).args[1]).toEqual({ kind: 'BooleanLiteral', value: false, start: 42, end: 47 });
+        expect((ast.expression.args[2] as CallExpression).args[1]).toEqual({ kind: 'NullLiteral', value: null, start: 66, end: 70 });
+    });
+
+    it('should parse a date literal', () => {
+        const input = 'gt("createdAt", date("2024-01-01"))';
+        const lexer = new Lexer(input);
+        const parser = new Parser(lexer);
+        const ast = parser.parse();
+
+        expect(ast).toEqual({
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'gt',
+                args: [
+                    { kind: 'StringLiteral', value: 'createdAt', start: 3, end: 14 },
+                    { kind: 'DateLiteral', value: '2024-01-01', start: 16, end: 34 },
+                ],
+                start: 0,
+                end: 35,
+            },
+            start: 0,
+            end: 35,
+        });
+    });
+
+    it('should allow keyword and date literals inside array literals', () => {
+        const input = 'inArray("flag", [true, null, date("2024-01-01T10:00:00Z")])';
+        const lexer = new Lexer(input);
+        const parser = new Parser(lexer);
+        const ast = parser.parse();
+
+        expect(ast.expression.args[1]).toEqual({
+            kind: 'ArrayLiteral',
+            elements: [
+                { kind: 'BooleanLiteral', value: true, start: 17, end: 21 },
+                { kind: 'NullLiteral', value: null, start: 23, end: 27 },
+                { kind: 'DateLiteral', value: '2024-01-01T10:00:00Z', start: 29, end: 57 },
+            ],
+            start: 16,
+            end: 58,
+        });
+    });
+
+    it('should throw ParserError for an invalid date literal', () => {
+        const input = 'gt("createdAt", date("not a date"))';
+        const lexer = new Lexer(input);
+        const parser = new Parser(lexer);
+
+        expect(() => parser.parse()).toThrow('Invalid date literal: \'not a date\'');
+    });
+
+    it('should parse bare identifiers and col("...") as column references', () => {
+        const ast = new Parser(new Lexer('eq(name, col("first name"))')).parse();
+
+        expect(ast.expression.args).toEqual([
+            { kind: 'ColumnReference', name: 'name', start: 3, end: 7 },
+            { kind: 'ColumnReference', name: 'first name', start: 9, end: 26 },
+        ]);
+    });
+
+    it('should parse a bare col as a column named col', () => {
+        const ast = new Parser(new Lexer('isNull(col)')).parse();
+
+        expect(ast.expression.args).toEqual([{ kind: 'ColumnReference', name: 'col', start: 7, end: 10 }]);
+    });
+
+    it('should throw ParserError for col() without a string', () => {
+        expect(() => new Parser(new Lexer('isNull(col(name))')).parse())
+            .toThrow('Expected a column name string but got \'name\' (type IDENTIFIER).');
+    });
+
+    it('should parse negative numbers', () => {
+        const ast = new Parser(new Lexer('between(age, -5, 1e3)')).parse();
+
+        expect(ast.expression.args.slice(1)).toEqual([
+            { kind: 'NumberLiteral', value: -5, start: 13, end: 15 },
+            { kind: 'NumberLiteral', value: 1000, start: 17, end: 20 },
+        ]);
+    });
+
+    it('should reject numbers out of the range of a double', () => {
+        expect(() => new Parser(new Lexer('eq(age, 1e400)')).parse())
+            .toThrow(expect.objectContaining({ code: 'INVALID_NUMBER', message: "Number literal out of range: '1e400'", span: { start: 8, end: 13 } }));
+        expect(() => new Parser(new Lexer('age > -1e309'), { syntax: 'infix' }).parse()).toThrow("Number literal out of range: '-1e309'");
+    });
+
+    it('should parse placeholders as arguments', () => {
+        const ast = new Parser(new Lexer('and(eq(tenantId, $tenant), inArray(status, $statuses))')).parse();
+
+        expect(ast.expression.args).toMatchObject([
+            { functionName: 'eq', args: [{ kind: 'ColumnReference' }, { kind: 'Placeholder', name: 'tenant', start: 17, end: 24 }] },
+            { functionName: 'inArray', args: [{ kind: 'ColumnReference' }, { kind: 'Placeholder', name: 'statuses', start: 43, end: 52 }] },
+        ]);
+        expect(() => new Parser(new Lexer('inArray(status, [$a])')).parse()).toThrow('Expected a literal as an array element.');
+    });
+
+    it('should leave out source spans when locations is false', () => {
+        const ast = new Parser(new Lexer('not(eq(name, "Ann"))'), { locations: false }).parse();
+
+        expect(ast).toEqual({
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'not',
+                args: [{
+                    kind: 'CallExpression',
+                    functionName: 'eq',
+                    args: [{ kind: 'ColumnReference', name: 'name' }, { kind: 'StringLiteral', value: 'Ann' }],
+                }],
+            },
+        });
+    });
+})
+
+describe('Parser (infix syntax)', () => {
+    const parseInfix = (input: string) => new Parser(new Lexer(input), { syntax: 'infix' }).parse();
+
+    it('should parse a simple comparison', () => {
+        expect(parseInfix('age >= 18')).toEqual({
+            kind: 'Program',
+            expression: {
+                kind: 'CallExpression',
+                functionName: 'gte',
+                args: [
+                    { kind: 'ColumnReference', name: 'age', start: 0, end: 3 },
+                    { kind: 'NumberLiteral', value: 18, start: 7, end: 9 },
+                ],
+                start: 0,
+                end: 9,
+            },
+            start: 0,
+            end: 9,
+        });
+    });
+
+    it('should give and precedence over or and respect parentheses', () => {
+        const ast = parseInfix('name = "Alice" and (age > 25 or email is null)');
+
+        expect(ast.expression).toEqual({
+            kind: 'CallExpression',
+            functionName: 'and',
+            args: [
+                {
+                    kind: 'CallExpression',
+                    functionName: 'eq',
+                    args: [
+                        { kind: 'ColumnReference', name: 'name', start: 0, end: 4 },
+                        { kind: 'StringLiteral', value: 'Alice', start: 7, end: 14 },
+                    ],
+                    start: 0,
+                    end: 14,
+                },
+                {
+                    kind: 'CallExpression',
+                    functionName: 'or',
+                    args: [
+                        {
+                            kind: 'CallExpression',
+                            functionName: 'gt',
+                            args: [
+                                { kind: 'ColumnReference', name: 'age', start: 20, end: 23 },
+                                { kind: 'NumberLiteral', value: 25, start: 26, end: 28 },
+                            ],
+                            start: 20,
+                            end: 28,
+                        },
+                        {
+                            kind: 'CallExpression',
+                            functionName: 'isNull',
+                            args: [
+                                { kind: 'ColumnReference', name: 'email', start: 32, end: 37 },
+                            ],
+                            start: 32,
+                            end: 45,
+                        },
+                    ],
+                    start: 20,
+                    end: 45,
+                },
+            ],
+            start: 0,
+            end: 46,
+        });
+    });
+
+    it('should bind and tighter than or without parentheses', () => {
+        const ast = parseInfix('a = 1 or b = 2 and c = 3 or d = 4');
+
+        expect(ast.expression.functionName).toBe('or');
+        expect(ast.expression.args).toHaveLength(3);
+        expect((ast.expression.args[1] as CallExpression).functionName).toBe('and');
+    });
+
+    it('should bind not tighter than and', () => {
+        const ast = parseInfix('not a = 1 and b = 2');
+
+        expect(ast.expression.functionName).toBe('and');
+        expect((ast.expression.args[0] as CallExpression).functionName).toBe('not');
+    });
+
+    it('should map negated operators to their Drizzle equivalents', () => {
+        expect(parseInfix('a != 1').expression).toEqual({
+            kind: 'CallExpression',
+            functionName: 'ne',
+            args: [
+                { kind: 'ColumnReference', name: 'a', start: 0, end: 1 },
+                { kind: 'NumberLiteral', value: 1, start: 5, end: 6 },
+            ],
+            start: 0,
+            end: 6,
+        });
+        expect(parseInfix('a <> 1').expression.functionName).toBe('ne');
+        expect(parseInfix('a is not null').expression.functionName).toBe('isNotNull');
+        expect(parseInfix('a not in [1, 2]').expression.functionName).toBe('notInArray');
+        expect(parseInfix('a not between 1 and 2').expression.functionName).toBe('notBetween');
+        expect(parseInfix('a not like "x%"').expression.functionName).toBe('notLike');
+        expect(parseInfix('a NOT ILIKE "x%"').expression.functionName).toBe('notIlike');
+    });
+
+    it('should parse in with bracketed and parenthesized lists', () => {
+        const expected = {
+            kind: 'ArrayLiteral',
+            elements: [
+                { kind: 'StringLiteral', value: 'active', start: 11, end: 19 },
+                { kind: 'StringLiteral', value: 'pending', start: 21, end: 30 },
+            ],
+            start: 10,
+            end: 31,
+        };
+
+        expect(parseInfix('status in ["active", "pending"]').expression.args[1]).toEqual(expected);
+        expect(parseInfix('status IN ("active", "pending")').expression.args[1]).toEqual(expected);
+    });
+
+    it('should parse between with and inside a conjunction', () => {
+        const ast = parseInfix('age between 18 and 30 and name ilike "a%"');
+
+        expect(ast.expression.functionName).toBe('and');
+        expect(ast.expression.args[0]).toEqual({
+            kind: 'CallExpression',
+            functionName: 'between',
+            args: [
+                { kind: 'ColumnReference', name: 'age', start: 0, end: 3 },
+                { kind: 'NumberLiteral', value: 18, start: 12, end: 14 },
+                { kind: 'NumberLiteral', value: 30, start: 19, end: 21 },
+            ],
+            start: 0,
+            end: 21,
+        });
+        expect((ast.expression.args[1] as CallExpression).functionName).toBe('ilike');
+    });
+
+    it('should parse column references on either side of a comparison', () => {
+        const ast = parseInfix('col("unit price") > cost');
+
+        expect(ast.expression.args).toEqual([
+            { kind: 'ColumnReference', name: 'unit price', start: 0, end: 17 },
+            { kind: 'ColumnReference', name: 'cost', start: 20, end: 24 },
+        ]);
+    });
+
+    it('should parse placeholders as values and lists', () => {
+        const ast = parseInfix('tenantId = $tenant and status in $statuses and age between $min and 30');
+
+        expect(ast.expression.args).toMatchObject([
+            { functionName: 'eq', args: [{ kind: 'ColumnReference' }, { kind: 'Placeholder', name: 'tenant' }] },
+            { functionName: 'inArray', args: [{ kind: 'ColumnReference' }, { kind: 'Placeholder', name: 'statuses' }] },
+            { functionName: 'between', args: [{ kind: 'ColumnReference' }, { kind: 'Placeholder', name: 'min' }, { kind: 'NumberLiteral' }] },
+        ]);
+    });
+
+    it('should read literal keywords in any case', () => {
+        expect(parseInfix('active = TRUE').expression.args[1]).toEqual({ kind: 'BooleanLiteral', value: true, start: 9, end: 13 });
+        expect(parseInfix('createdAt > Date("2024-01-01")').expression.args[1]).toMatchObject({ kind: 'DateLiteral', value: '2024-01-01' });
+        expect(parseInfix('col("TRUE") = False').expression.args).toMatchObject([{ kind: 'ColumnReference', name: 'TRUE' }, { kind: 'BooleanLiteral', value: false }]);
+    });
+
+    it('should read comparisons with null as null checks', () => {
+        expect(parseInfix('email = null').expression).toEqual({
+            kind: 'CallExpression',
+            functionName: 'isNull',
+            args: [{ kind: 'ColumnReference', name: 'email', start: 0, end: 5 }],
+            start: 0,
+            end: 12,
+        });
+        expect(parseInfix('email != NULL or email <> null').expression.args).toMatchObject([{ functionName: 'isNotNull' }, { functionName: 'isNotNull' }]);
+        expect(() => parseInfix('age > null')).toThrow("Cannot compare with null using '>'. Use 'is null' or 'is not null'.");
+    });
+
+    it('should allow prefix calls inside infix expressions', () => {
+        const ast = parseInfix('isNull("email") or age < 18');
+
+        expect(ast.expression.functionName).toBe('or');
+        expect((ast.expression.args[0] as CallExpression).functionName).toBe('isNull');
+    });
+
+    it('should throw ParserError for a missing comparison operator', () => {
+        expect(() => parseInfix('age 18')).toThrow('Unexpected token \'18\' (type NUMBER_LITERAL). Expected a comparison operator after \'age\'.');
+    });
+
+    it('should throw ParserError for an incomplete between', () => {
+        expect(() => parseInfix('age between 18 or 30')).toThrow('Expected \'and\' between the bounds of \'between\'.');
+    });
+
+    it('should still reject infix operators in prefix mode', () => {
+        expect(() => new Parser(new Lexer('a = 1')).parse()).toThrow(ParserError);
+    });
+})
+
+describe('Parser (error recovery)', () => {
+    const parseWithRecovery = (input: string, syntax: 'prefix' | 'infix' = 'prefix') =>
+        new Parser(new Lexer(input), { syntax }).parseWithRecovery();
+
+    it('should report every problem at once and return a partial program', () => {
+        const result = parseWithRecovery('and(eq("a" "b"), gt("c", ), lt("d", 1)');
+
+        expect(result.diagnostics.map(d => [d.code, d.start, d.end])).toEqual([
+            ['UNEXPECTED_TOKEN', 11, 14],
+            ['UNEXPECTED_TOKEN', 25, 26],
+            ['UNEXPECTED_TOKEN', 38, 38],
+        ]);
+        expect(result.diagnostics[0]!.message).toBe('Unexpected token \'b\' (type STRING_LITERAL). Expected \',\' or \')\'.');
+        expect(result.diagnostics[2]!.message).toBe('Expected \')\' to close function call \'and\'.');
+
+        const andCall = result.program!.expression;
+        expect(andCall.functionName).toBe('and');
+        expect(andCall.args.map(arg => (arg as CallExpression).functionName)).toEqual(['eq', 'gt', 'lt']);
+        expect((andCall.args[0] as CallExpression).args).toEqual([{ kind: 'StringLiteral', value: 'a', start: 7, end: 10 }]);
+        expect((andCall.args[2] as CallExpression).args).toHaveLength(2);
+    });
+
+    it('should return the same program as parse() and no diagnostics for valid input', () => {
+        const input = 'and(eq("a", "b"), inArray("c", [1, 2]))';
+
+        const result = parseWithRecovery(input);
+
+        expect(result.diagnostics).toEqual([]);
+        expect(result.program).toEqual(new Parser(new Lexer(input)).parse());
+    });
+
+    it('should record lexer errors and keep going', () => {
+        const result = parseWithRecovery('eq("a", "b');
+
+        expect(result.diagnostics[0]!.code).toBe('UNCLOSED_STRING');
+        expect(result.diagnostics.at(-1)!.message).toBe('Expected \')\' to close function call \'eq\'.');
+        expect(result.program!.expression.functionName).toBe('eq');
+    });
+
+    it('should drop invalid array elements', () => {
+        const result = parseWithRecovery('inArray("s", [1, eq, 3])');
+
+        expect(result.diagnostics).toHaveLength(1);
+        expect(result.diagnostics[0]!.excerpt).toBe('inArray("s", [1, eq, 3])\n                 ^^');
+        expect((result.program!.expression.args[1] as ArrayLiteral).elements.map(e => e.value)).toEqual([1, 3]);
+    });
+
+    it('should recover at and/or in infix mode', () => {
+        const result = parseWithRecovery('a = and b > 2 or c = 3', 'infix');
+
+        expect(result.diagnostics.map(d => d.message)).toEqual(['Unexpected token \'and\' (type IDENTIFIER). Expected a literal value or a column name.']);
+        expect(result.program!.expression.functionName).toBe('or');
+        expect((result.program!.expression.args as CallExpression[]).map(arg => arg.functionName)).toEqual(['gt', 'eq']);
+    });
+
+    it('should skip the rest of a call that failed after its opening parenthesis', () => {
+        const date = parseWithRecovery('eq(a, date(1), 2)');
+
+        expect(date.diagnostics.map(d => d.message)).toEqual(["Expected a date string but got '1' (type NUMBER_LITERAL)."]);
+        expect(new Printer().print(date.program!)).toBe('eq(a, 2)');
+
+        const tooDeep = new Parser(new Lexer('and(eq(a, 1)'), { maxDepth: 1 }).parseWithRecovery();
+
+        expect(tooDeep.diagnostics.map(d => d.code)).toEqual(['MAX_DEPTH_EXCEEDED', 'UNEXPECTED_TOKEN']);
+        expect(new Printer().print(tooDeep.program!)).toBe('and()');
+    });
+
+    it('should report trailing input', () => {
+        const result = parseWithRecovery('eq("a", 1))');
+
+        expect(result.diagnostics.map(d => d.message)).toEqual(['Unexpected token \')\' at position 10. Expected end of input.']);
+        expect(result.program!.expression.functionName).toBe('eq');
+    });
+
+    it('should return no program when nothing can be parsed', () => {
+        const result = parseWithRecovery('');
+
+        expect(result.program).toBeUndefined();
+        expect(result.diagnostics).toHaveLength(1);
+    });
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { integer, pgTable, text } from "drizzle-orm/pg-core";
+import { Lexer } from "../src/lexer";
+import { Parser } from "../src/parser";
+import { FilterPolicy, PolicyEnforcer, PolicyViolationError } from "../src/policy";
+import { convertStringToDrizzleFilter, validateFilterString } from "../src";
+import { ColumnMap } from "../src/generator";
+
+const users = pgTable('users', {
+    name: text('name'),
+    age: integer('age'),
+    passwordHash: text('password_hash'),
+});
+
+const columnMap: ColumnMap = { name: users.name, age: users.age, passwordHash: users.passwordHash };
+
+function enforce(input: string, policy: FilterPolicy, strict = false): void {
+    const ast = new Parser(new Lexer(input)).parse();
+    new PolicyEnforcer(policy, columnMap, { strict }).enforce(ast);
+}
+
+function violation(input: string, policy: FilterPolicy): PolicyViolationError {
+    try {
+        enforce(input, policy);
+    } catch (e) {
+        expect(e).toBeInstanceOf(PolicyViolationError);
+        return e as PolicyViolationError;
+    }
+    return expect.fail('Expected a policy violation');
+}
+
+describe('PolicyEnforcer', () => {
+    it('should allow filters within the policy', () => {
+        const policy: FilterPolicy = {
+            operators: ['and', 'eq', 'inArray'],
+            columns: ['name', 'age'],
+            maxDepth: 2,
+            maxNodes: 9,
+            maxArrayLength: 2,
+            maxStringLength: 5,
+        };
+
+        expect(() => enforce('and(eq(name, "Alice"), inArray("age", [1, 2]))', policy)).not.toThrow();
+    });
+
+    it('should reject operators that are not allowed', () => {
+        expect(violation('or(eq(name, "a"), like(name, "b%"))', { operators: ['or', 'eq'] })).toMatchObject({
+            code: 'OPERATOR_NOT_ALLOWED',
+            message: "Operator 'like' is not allowed.",
+            span: { start: 18, end: 34 },
+        });
+    });
+
+    it('should reject columns outside the allowlist, including quoted column names', () => {
+        expect(violation('eq(passwordHash, "x")', { columns: ['name'] })).toMatchObject({
+            code: 'COLUMN_NOT_ALLOWED',
+            message: "Column 'passwordHash' is not allowed.",
+        });
+        expect(violation('eq("name", "passwordHash")', { columns: ['name'] }).code).toBe('COLUMN_NOT_ALLOWED');
+    });
+
+    it('should not treat quoted strings as columns in strict mode', () => {
+        expect(() => enforce('eq(name, "passwordHash")', { columns: ['name'] }, true)).not.toThrow();
+    });
+
+    it('should restrict operators per column', () => {
+        const policy: FilterPolicy = { columnOperators: { passwordHash: ['eq'] } };
+
+        expect(() => enforce('eq(passwordHash, "x")', policy)).not.toThrow();
+        expect(violation('like(passwordHash, "a%")', policy)).toMatchObject({
+            code: 'OPERATOR_NOT_ALLOWED',
+            message: "Operator 'like' is not allowed on column 'passwordHash'.",
+        });
+    });
+
+    it('should enforce complexity limits', () => {
+        expect(violation('not(not(eq(age, 1)))', { maxDepth: 2 })).toMatchObject({
+            code: 'MAX_DEPTH_EXCEEDED',
+            message: 'Filter exceeds the maximum nesting depth of 2.',
+        });
+        expect(violation('and(eq(age, 1), eq(age, 2))', { maxNodes: 6 }).code).toBe('MAX_NODES_EXCEEDED');
+        expect(violation('inArray(age, [1, 2, 3])', { maxArrayLength: 2 })).toMatchObject({
+            code: 'MAX_ARRAY_LENGTH_EXCEEDED',
+            message: 'Array literal has 3 elements; the maximum is 2.',
+        });
+        expect(violation('inArray(name, ["a", "abcdef"])', { maxStringLength: 5 })).toMatchObject({
+            code: 'MAX_STRING_LENGTH_EXCEEDED',
+            span: { start: 20, end: 28 },
+        });
+    });
+});
+
+describe('convertStringToDrizzleFilter with a policy', () => {
+    it('should reject deeply nested input while parsing', () => {
+        const input = 'not('.repeat(10000) + 'eq(age, 1)' + ')'.repeat(10000);
+
+        expect(() => convertStringToDrizzleFilter(input, columnMap, { policy: { maxDepth: 16 } }))
+            .toThrow(PolicyViolationError);
+        expect(() => convertStringToDrizzleFilter('((not a = 1))', columnMap, { syntax: 'infix', policy: { maxDepth: 2 } }))
+            .toThrow('Filter exceeds the maximum nesting depth of 2.');
+    });
+
+    it('should throw before generating', () => {
+        expect(() => convertStringToDrizzleFilter('like(passwordHash, "a%")', columnMap, { policy: { columns: ['name'] } }))
+            .toThrow(PolicyViolationError);
+        expect(convertStringToDrizzleFilter('eq(name, "a")', columnMap, { policy: { columns: ['name'] } })).toBeDefined();
+    });
+
+    it('should report the violation from validateFilterString', () => {
+        const diagnostics = validateFilterString('eq(passwordHash, "x")', columnMap, { policy: { columns: ['name'] } });
+
+        expect(diagnostics.map(d => d.code)).toEqual(['COLUMN_NOT_ALLOWED']);
+        expect(diagnostics[0]!.excerpt).toBe('eq(passwordHash, "x")\n   ^^^^^^^^^^^^');
+    });
+});
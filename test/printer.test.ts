@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import { Argument, CallExpression, Program, ScalarLiteral } from "../src/ast";
+import { programFromJSON, programToJSON } from "../src/json";
+import { Lexer } from "../src/lexer";
+import { programFromMongo } from "../src/mongo";
+import { programFromOData } from "../src/odata";
+import { Parser } from "../src/parser";
+import { Printer } from "../src/printer";
+
+const parse = (input: string, syntax: 'prefix' | 'infix' = 'prefix') =>
+    new Parser(new Lexer(input), { syntax, locations: false }).parse();
+
+const program = (expression: CallExpression): Program => ({ kind: 'Program', expression });
+const call = (functionName: string, ...args: Argument[]): CallExpression => ({ kind: 'CallExpression', functionName, args });
+const column = (name: string): Argument => ({ kind: 'ColumnReference', name });
+const string = (value: string): ScalarLiteral => ({ kind: 'StringLiteral', value });
+const number = (value: number): ScalarLiteral => ({ kind: 'NumberLiteral', value });
+
+describe('Printer', () => {
+    it('should print every kind of node in compact mode', () => {
+        const ast = parse('and(eq(name, "Ann"), inArray(status, ["a", 1, true, null, date("2024-01-01")]), isNull(col("first name")), gt(age, -2.5))');
+
+        expect(new Printer().print(ast))
+            .toBe('and(eq(name, "Ann"), inArray(status, ["a", 1, true, null, date("2024-01-01")]), isNull(col("first name")), gt(age, -2.5))');
+    });
+
+    it('should print canonical text regardless of the original layout and syntax', () => {
+        const printer = new Printer();
+
+        expect(printer.print(parse('  and( eq( name,"Ann" ) ,gt(age,30))'))).toBe('and(eq(name, "Ann"), gt(age, 30))');
+        expect(printer.print(parse('name = "Ann" and not (age between 18 and 30)', 'infix')))
+            .toBe('and(eq(name, "Ann"), not(between(age, 18, 30)))');
+    });
+
+    it('should indent nested calls in pretty mode', () => {
+        const ast = parse('and(eq(name, "Ann"), or(gt(age, 30), isNull(email)), not(inArray(id, [1, 2])))');
+
+        expect(new Printer({ mode: 'pretty' }).print(ast)).toBe([
+            'and(',
+            '    eq(name, "Ann"),',
+            '    or(',
+            '        gt(age, 30),',
+            '        isNull(email)',
+            '    ),',
+            '    not(',
+            '        inArray(id, [1, 2])',
+            '    )',
+            ')',
+        ].join('\n'));
+        expect(new Printer({ mode: 'pretty', indent: '\t' }).print(parse('not(isNull(a))'))).toBe('not(\n\tisNull(a)\n)');
+        expect(new Printer({ mode: 'pretty', indent: 2 }).print(parse('eq(a, 1)'))).toBe('eq(a, 1)');
+    });
+
+    it('should escape strings and quote column names that are not identifiers', () => {
+        const ast = program(call('eq', column('true'), string('say "hi" \\o/')));
+
+        // Escape sequences such as the LIKE escape '\%' are kept in string values, and printed as they are.
+        expect(new Printer().print(ast)).toBe('eq(col("true"), "say ""hi"" \\o/")');
+        expect(new Printer().print(parse('like(name, "100\\% \\"sure\\"")'))).toBe('like(name, "100\\% \\"sure\\"")');
+        expect(new Printer().print(string('C:\\\\'))).toBe('"C:\\\\"');
+        expect(new Printer().print(program(call('isNull', column('col'))))).toBe('isNull(col("col"))');
+        expect(new Printer().print(program(call('isNull', column('organization.name'))))).toBe('isNull(organization.name)');
+    });
+
+    it('should print parts of an AST', () => {
+        expect(new Printer().print(string('a"b'))).toBe('"a""b"');
+        expect(new Printer().print({ kind: 'ArrayLiteral', elements: [number(1), number(-0)] })).toBe('[1, -0]');
+    });
+
+    it('should reject ASTs the grammar cannot express', () => {
+        expect(() => new Printer().print(program(call('eq', column('a'), number(NaN)))))
+            .toThrow('Cannot print the number NaN: only finite numbers can be written in a filter.');
+        expect(() => new Printer().print(program(call('not', call('date', string('2024-01-01'))))))
+            .toThrow("Cannot print a call to 'date': not a valid function name.");
+        expect(() => new Printer().print(program(call('is null', column('a')))))
+            .toThrow("Cannot print a call to 'is null': not a valid function name.");
+        expect(() => new Printer().print(program(call('eq', column('a'), { kind: 'Placeholder', name: 'a.b' }))))
+            .toThrow("Cannot print the placeholder '$a.b': not a valid placeholder name.");
+        expect(() => new Printer().print(program(call('eq', column('path'), string('C:\\')))))
+            .toThrow("Cannot print the string 'C:\\': it ends with a backslash that escapes nothing.");
+    });
+});
+
+describe('Printer round trip', () => {
+    const roundTrip = (ast: Program, printer: Printer) => parse(printer.print(ast));
+
+    const handWritten: Program[] = [
+        program(call('eq', column('first name'), string('Ann \\"the \\\\ one\\"'))),
+        program(call('eq', column('say "hi"'), string('say "hi"'))),
+        program(call('like', column('a'), string('"\\"" \\\\"'))),
+        program(call('and')),
+        program(call('or', call('lt', column('a'), number(-0)), call('gt', column('b'), number(1e21)), call('lte', column('c'), number(2.5e-7)))),
+        program(call('inArray', column('Col'), { kind: 'ArrayLiteral', elements: [] })),
+        program(call('eq', string('name'), { kind: 'BooleanLiteral', value: false })),
+        program(call('between', column('createdAt'), { kind: 'DateLiteral', value: '2024-01-01' }, { kind: 'NullLiteral', value: null })),
+        program(call('not', call('not', call('isNull', column('null'))))),
+        program(call('and', call('eq', column('tenantId'), { kind: 'Placeholder', name: 'tenant' }), call('inArray', column('s'), { kind: 'Placeholder', name: 's' }))),
+    ];
+
+    it.each(handWritten.map(ast => [new Printer().print(ast), ast] as const))('should parse %s back to the same AST', (_, ast) => {
+        expect(roundTrip(ast, new Printer())).toEqual(ast);
+        expect(roundTrip(ast, new Printer({ mode: 'pretty' }))).toEqual(ast);
+    });
+
+    it('should round-trip generated ASTs in both modes', () => {
+        // A small deterministic generator (linear congruential), so that failures are reproducible.
+        let seed = 42;
+        const random = (n: number) => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return seed % n;
+        };
+        const strings = ['', 'a', 'Ann', 'x y', '\\"', '\\\\', 'a\\"b', '"', '""', 'a"b\\""', '100\\%', 'é', 'col', 'true', 'a.b', '1abc'];
+        const numbers = [0, -0, 1, -1, 3.14, -2.5e-7, 1e21, Number.MAX_SAFE_INTEGER, Number.MIN_VALUE];
+        const pick = <T>(values: T[]): T => values[random(values.length)]!;
+
+        const literal = (): ScalarLiteral => {
+            switch (random(5)) {
+                case 0: return string(pick(strings));
+                case 1: return number(pick(numbers));
+                case 2: return { kind: 'BooleanLiteral', value: random(2) === 0 };
+                case 3: return { kind: 'NullLiteral', value: null };
+                default: return { kind: 'DateLiteral', value: pick(['2024-01-01', '2024-01-01T10:00:00Z']) };
+            }
+        };
+        const argument = (depth: number): Argument => {
+            switch (random(depth > 0 ? 4 : 3)) {
+                case 0: return literal();
+                case 1: return column(pick(strings));
+                case 2: return { kind: 'ArrayLiteral', elements: Array.from({ length: random(3) }, literal) };
+                default: return expression(depth - 1);
+            }
+        };
+        const expression = (depth: number): CallExpression =>
+            call(pick(['and', 'or', 'not', 'eq', 'inArray', 'custom_op', 'a.b']), ...Array.from({ length: random(4) }, () => argument(depth)));
+
+        for (let i = 0; i < 200; i++) {
+            const ast = program(expression(3));
+            expect(roundTrip(ast, new Printer())).toEqual(ast);
+            expect(roundTrip(ast, new Printer({ mode: 'pretty', indent: 2 }))).toEqual(ast);
+        }
+    });
+
+    it('should round-trip ASTs that were not parsed from a filter string', () => {
+        const asts = [
+            programFromMongo({ name: 'say "hi"', path: { $in: ['C:\\Users', 'a\\"b', '""'] } }),
+            programFromJSON({ kind: 'Program', expression: { kind: 'CallExpression', functionName: 'like', args: [
+                { kind: 'ColumnReference', name: 'name' },
+                { kind: 'StringLiteral', value: '"100\\%" \\\\' },
+            ] } }),
+            // The OData parser records source spans, which the round trip does not keep.
+            programToJSON(programFromOData(`name eq 'O''Brien "Bob"'`)),
+        ];
+        for (const ast of asts) {
+            expect(roundTrip(ast, new Printer())).toEqual(ast);
+            expect(roundTrip(ast, new Printer({ mode: 'pretty' }))).toEqual(ast);
+        }
+        expect(new Printer().print(asts[0]!)).toBe('and(eq(name, "say ""hi"""), inArray(path, ["C:\\Users", "a\\"b", """"""]))');
+    });
+});
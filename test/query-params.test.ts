@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { eq, SQL } from "drizzle-orm";
+import { integer, PgDialect, pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
+import { PolicyViolationError } from "../src/policy";
+import { QueryParameterError } from "../src/query-params";
+import { relation } from "../src/relations";
+import { convertQueryParams } from "../src";
+
+const organizations = pgTable('organizations', { id: serial('id'), name: text('name') });
+const users = pgTable('users', {
+    id: serial('id'),
+    name: text('name'),
+    age: integer('age'),
+    organizationId: integer('organization_id'),
+    createdAt: timestamp('created_at'),
+});
+const columnMap = {
+    id: users.id,
+    name: users.name,
+    age: users.age,
+    created: users.createdAt,
+    organization: relation(organizations, eq(organizations.id, users.organizationId)),
+};
+const dialect = new PgDialect();
+const toQuery = (filter: unknown) => dialect.sqlToQuery(filter as SQL);
+
+describe('convertQueryParams', () => {
+    it('should convert every part of a list query', () => {
+        const params = new URLSearchParams('?filter=gt(age, 30)&sort=desc(created),id&limit=20&offset=40&fields=id, created');
+        const query = convertQueryParams(params, columnMap);
+
+        expect(toQuery(query.where)).toMatchObject({ sql: '"users"."age" > $1', params: [30] });
+        expect(query.orderBy?.map(expression => toQuery(expression).sql)).toEqual(['"users"."created_at" desc', '"users"."id" asc']);
+        expect(query).toMatchObject({ limit: 20, offset: 40 });
+        expect(query.columns).toEqual({ id: true, createdAt: true });
+        expect(query.selection).toEqual({ id: users.id, created: users.createdAt });
+    });
+
+    it('should leave out absent parameters and apply the default limit', () => {
+        expect(convertQueryParams({ filter: '', sort: undefined }, columnMap)).toEqual({});
+        expect(convertQueryParams({}, columnMap, { defaultLimit: 25 })).toEqual({ limit: 25 });
+        expect(convertQueryParams({}, columnMap, { defaultLimit: 500, maxLimit: 100 })).toEqual({ limit: 100 });
+    });
+
+    it('should combine repeated filters and sorts', () => {
+        const query = convertQueryParams({ filter: ['age > 30', 'name = "Ann"'], sort: ['name', 'desc(id)'] }, columnMap, { syntax: 'infix' });
+
+        expect(toQuery(query.where)).toMatchObject({ sql: '("users"."age" > $1 and "users"."name" = $2)', params: [30, 'Ann'] });
+        expect(query.orderBy?.map(expression => toQuery(expression).sql)).toEqual(['"users"."name" asc', '"users"."id" desc']);
+    });
+
+    it('should reject invalid limits, offsets and fields', () => {
+        const error = (parameter: string, message: string) => expect.objectContaining({ parameter, message, code: 'INVALID_QUERY_PARAMETER' });
+
+        expect(() => convertQueryParams({ limit: '-1' }, columnMap)).toThrow(error('limit', "The 'limit' parameter must be a non-negative integer, got '-1'."));
+        expect(() => convertQueryParams({ limit: '101' }, columnMap, { maxLimit: 100 })).toThrow(error('limit', "The 'limit' parameter must be at most 100, got 101."));
+        expect(() => convertQueryParams({ offset: ['1', '2'] }, columnMap)).toThrow(error('offset', "The 'offset' parameter may only be given once."));
+        expect(() => convertQueryParams({ fields: 'id,email' }, columnMap)).toThrow(error('fields', "Unknown field 'email'."));
+        expect(() => convertQueryParams({ fields: 'organization.name' }, columnMap)).toThrow(QueryParameterError);
+    });
+
+    it('should apply the policy to the filter, sort and fields', () => {
+        const options = { policy: { columns: ['id', 'name'], operators: ['eq'] } };
+
+        expect(convertQueryParams({ filter: 'eq(name, "Ann")', sort: 'name', fields: 'id,name' }, columnMap, options)).toMatchObject({ columns: { id: true, name: true } });
+        expect(() => convertQueryParams({ filter: 'gt(id, 1)' }, columnMap, options)).toThrow(PolicyViolationError);
+        expect(() => convertQueryParams({ sort: 'desc(age)' }, columnMap, options)).toThrow(expect.objectContaining({ code: 'COLUMN_NOT_ALLOWED', span: { start: 0, end: 9 } }));
+        expect(() => convertQueryParams({ fields: 'id,age' }, columnMap, options)).toThrow("Column 'age' is not allowed.");
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { eq, SQL } from "drizzle-orm";
+import { integer, PgDialect, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { relation, RelationMapping, resolveColumnPath } from "../src/relations";
+import { convertStringToDrizzleFilter, validateFilterString } from "../src";
+import { ColumnMap } from "../src/generator";
+
+const organizations = pgTable('organizations', {
+    id: serial('id').primaryKey(),
+    name: text('name'),
+    ownerId: integer('owner_id'),
+});
+
+const people = pgTable('people', {
+    id: serial('id').primaryKey(),
+    email: text('email'),
+});
+
+const users = pgTable('users', {
+    id: serial('id').primaryKey(),
+    name: text('name'),
+    organizationId: integer('organization_id'),
+});
+
+const columnMap: ColumnMap = {
+    name: users.name,
+    organization: relation(organizations, eq(organizations.id, users.organizationId), {
+        name: organizations.name,
+        owner: relation(people, eq(people.id, organizations.ownerId)),
+    }),
+};
+
+const dialect = new PgDialect();
+
+function toQuery(filter: unknown) {
+    return dialect.sqlToQuery(filter as SQL);
+}
+
+describe('resolveColumnPath', () => {
+    it('should resolve plain names and dotted paths', () => {
+        expect(resolveColumnPath(columnMap, 'name')).toEqual({ column: users.name, relations: [] });
+
+        const resolved = resolveColumnPath(columnMap, 'organization.owner.email');
+        expect(resolved?.column).toBe(people.email);
+        expect(resolved?.relations).toHaveLength(2);
+        expect(resolved?.relations[0]).toBeInstanceOf(RelationMapping);
+    });
+
+    it('should default relation columns to every column of the table', () => {
+        expect(resolveColumnPath(columnMap, 'organization.owner.id')?.column).toBe(people.id);
+    });
+
+    it('should not resolve relations themselves or unknown paths', () => {
+        expect(resolveColumnPath(columnMap, 'organization')).toBeUndefined();
+        expect(resolveColumnPath(columnMap, 'organization.slug')).toBeUndefined();
+        expect(resolveColumnPath(columnMap, 'name.length')).toBeUndefined();
+    });
+});
+
+describe('filters on related tables', () => {
+    it('should generate an EXISTS subquery for a dotted path', () => {
+        const filter = convertStringToDrizzleFilter('eq("organization.name", "Acme")', columnMap);
+
+        expect(toQuery(filter)).toMatchObject({
+            sql: 'exists (select 1 from "organizations" where ("organizations"."id" = "users"."organization_id") and ("organizations"."name" = $1))',
+            params: ['Acme'],
+        });
+    });
+
+    it('should nest EXISTS subqueries for nested relations and keep local columns outside', () => {
+        const filter = convertStringToDrizzleFilter('name = "Bob" and organization.owner.email like "%@acme.com"', columnMap, { syntax: 'infix' });
+
+        expect(toQuery(filter).sql).toBe(
+            '("users"."name" = $1 and exists (select 1 from "organizations" where ("organizations"."id" = "users"."organization_id") and ' +
+            '(exists (select 1 from "people" where ("people"."id" = "organizations"."owner_id") and ("people"."email" like $2)))))',
+        );
+    });
+
+    it('should report unknown paths', () => {
+        expect(() => convertStringToDrizzleFilter('eq(organization.slug, "acme")', columnMap)).toThrow("Unknown column 'organization.slug'.");
+        expect(validateFilterString('eq(organization.slug, "acme")', columnMap).map(d => d.code)).toEqual(['UNKNOWN_COLUMN']);
+    });
+});
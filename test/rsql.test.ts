@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { SQL } from "drizzle-orm";
+import { integer, PgDialect, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { ParserError } from "../src/parser";
+import { PolicyViolationError } from "../src/policy";
+import { Printer } from "../src/printer";
+import { programFromRSQL } from "../src/rsql";
+import { convertProgramToDrizzleFilter, convertStringToDrizzleFilter } from "../src";
+
+const print = (query: string) => new Printer().print(programFromRSQL(query));
+
+describe('programFromRSQL', () => {
+    it('should translate comparisons', () => {
+        expect(print('age=gt=25;name==Bob')).toBe('and(gt(age, "25"), eq(name, "Bob"))');
+        expect(print('a!=1,b=ge=2,c=le=3,d=lt=4')).toBe('or(ne(a, "1"), gte(b, "2"), lte(c, "3"), lt(d, "4"))');
+        expect(print('a<1;b<=2;c>3;d>=4')).toBe('and(lt(a, "1"), lte(b, "2"), gt(c, "3"), gte(d, "4"))');
+        expect(print('status=in=(a,"b c");role=out=admin')).toBe('and(inArray(status, ["a", "b c"]), notInArray(role, ["admin"]))');
+        expect(print('organization.name=="Acme \\"Inc\\""')).toBe('eq(organization.name, "Acme ""Inc""")');
+    });
+
+    it('should respect precedence, parentheses and keyword separators', () => {
+        expect(print('a==1,b==2;c==3')).toBe('or(eq(a, "1"), and(eq(b, "2"), eq(c, "3")))');
+        expect(print('(a==1,b==2);c==3')).toBe('and(or(eq(a, "1"), eq(b, "2")), eq(c, "3"))');
+        expect(print("a==1 and b=='x y' or c==3")).toBe('or(and(eq(a, "1"), eq(b, "x y")), eq(c, "3"))');
+    });
+
+    it('should translate wildcards to escaped like patterns', () => {
+        expect(print('name==Bo*;code!=*50%')).toBe('and(like(name, "Bo%"), notLike(code, "%50\\%"))');
+    });
+
+    it('should record source spans', () => {
+        expect(programFromRSQL('age=gt=25;name==Bob')).toMatchObject({
+            start: 0,
+            end: 19,
+            expression: { start: 0, end: 19, args: [{ start: 0, end: 9, args: [{ start: 0, end: 3 }, { start: 7, end: 9 }] }, { start: 10, end: 19 }] },
+        });
+    });
+
+    it.each([
+        ['age', "Expected a comparison operator after 'age' at position 3.", { start: 3, end: 3 }],
+        ['age=like=1', "Unsupported RSQL operator '=like='.", { start: 3, end: 9 }],
+        ['age==(1,2)', "'==' expects a single value.", { start: 5, end: 10 }],
+        ['(a==1', "Expected ')' to close the group started at position 0.", { start: 5, end: 5 }],
+        ['a==1)', "Unexpected ')' at position 4. Expected ',', ';' or end of input.", { start: 4, end: 5 }],
+        ['a=="x', 'Unclosed string literal starting at position 3', { start: 3, end: 5 }],
+        [';a==1', "Unexpected ';' at position 0. Expected a selector or '('.", { start: 0, end: 1 }],
+    ])('should reject %s', (query, message, span) => {
+        let error: unknown;
+        try {
+            programFromRSQL(query);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(ParserError);
+        expect(error).toMatchObject({ message, span });
+    });
+
+    it('should enforce maxDepth', () => {
+        expect(() => programFromRSQL('((a==1))', { maxDepth: 1 })).toThrow(PolicyViolationError);
+        expect(() => programFromRSQL('((a==1))', { maxDepth: 2 })).not.toThrow();
+    });
+
+    it('should rely on value coercion for typed columns', () => {
+        const users = pgTable('users', { id: serial('id'), name: text('name'), age: integer('age') });
+        const columnMap = { name: users.name, age: users.age };
+        const dialect = new PgDialect();
+
+        const filter = convertProgramToDrizzleFilter(programFromRSQL('age=gt=25;name==Bob'), columnMap, { strict: true });
+
+        expect(dialect.sqlToQuery(filter as SQL))
+            .toEqual(dialect.sqlToQuery(convertStringToDrizzleFilter('and(gt(age, 25), eq(name, "Bob"))', columnMap) as SQL));
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { eq, SQL } from "drizzle-orm";
+import { integer, PgDialect, pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
+import { Lexer } from "../src/lexer";
+import { ParserError } from "../src/parser";
+import { relation } from "../src/relations";
+import { SortGenerator, SortParser } from "../src/sort";
+import { convertStringToDrizzleOrderBy, createKeysetFilter } from "../src";
+
+const organizations = pgTable('organizations', { id: serial('id'), name: text('name') });
+const users = pgTable('users', {
+    id: serial('id'),
+    name: text('name'),
+    age: integer('age'),
+    organizationId: integer('organization_id'),
+    createdAt: timestamp('created_at'),
+});
+const columnMap = {
+    id: users.id,
+    name: users.name,
+    age: users.age,
+    createdAt: users.createdAt,
+    organization: relation(organizations, eq(organizations.id, users.organizationId)),
+};
+const dialect = new PgDialect();
+const toQuery = (filter: unknown) => dialect.sqlToQuery(filter as SQL);
+const parse = (input: string) => new SortParser(new Lexer(input)).parse();
+
+describe('SortParser', () => {
+    it('should parse directions, column forms and NULLs options', () => {
+        expect(parse('desc("createdAt", nullsLast), asc(name), col("age"), ASC(id, NULLSFIRST)').keys).toEqual([
+            { kind: 'SortKey', column: 'createdAt', direction: 'desc', nulls: 'last', start: 0, end: 28 },
+            { kind: 'SortKey', column: 'name', direction: 'asc', start: 30, end: 39 },
+            { kind: 'SortKey', column: 'age', direction: 'asc', start: 41, end: 51 },
+            { kind: 'SortKey', column: 'id', direction: 'asc', nulls: 'first', start: 53, end: 72 },
+        ]);
+        expect(parse('  ').keys).toEqual([]);
+    });
+
+    it('should reject malformed sort strings', () => {
+        expect(() => parse('up(name)')).toThrow("Unknown sort direction 'up'. Expected 'asc' or 'desc'.");
+        expect(() => parse('asc(name, nullsMiddle)')).toThrow("Unknown sort option 'nullsMiddle'. Expected 'nullsFirst' or 'nullsLast'.");
+        expect(() => parse('asc(name')).toThrow("Expected ')' to close 'asc('.");
+        expect(() => parse('asc(name) desc(id)')).toThrow(ParserError);
+        expect(() => parse('asc(name),')).toThrow('Expected a column name.');
+    });
+});
+
+describe('SortGenerator', () => {
+    it('should generate orderBy expressions through the column map', () => {
+        const orderBy = convertStringToDrizzleOrderBy('desc(createdAt, nullsLast), name', columnMap);
+
+        expect(orderBy.map(expression => toQuery(expression).sql)).toEqual([
+            '"users"."created_at" desc nulls last',
+            '"users"."name" asc',
+        ]);
+    });
+
+    it('should reject unknown columns and columns of related tables', () => {
+        expect(() => convertStringToDrizzleOrderBy('asc(email)', columnMap)).toThrow(expect.objectContaining({ code: 'UNKNOWN_COLUMN', span: { start: 0, end: 10 } }));
+        expect(() => convertStringToDrizzleOrderBy('asc(organization.name)', columnMap)).toThrow(expect.objectContaining({ code: 'UNSORTABLE_COLUMN' }));
+    });
+});
+
+describe('keyset filters', () => {
+    it('should select the rows after the cursor in sort order', () => {
+        const filter = createKeysetFilter('desc(age, nullsLast), asc(id)', { age: "30", id: 7 }, columnMap);
+
+        expect(toQuery(filter)).toMatchObject({
+            sql: '(("users"."age" < $1 or "users"."age" is null) or ("users"."age" = $2 and "users"."id" > $3))',
+            params: [30, 30, 7],
+        });
+    });
+
+    it('should follow the NULL order of each key', () => {
+        const generator = new SortGenerator(columnMap);
+
+        // NULLs come last for asc by default: only ties sort after a NULL age. The id column is NOT NULL.
+        expect(toQuery(generator.keyset(parse('age, id'), { age: null, id: 7 })).sql)
+            .toBe('("users"."age" is null and "users"."id" > $1)');
+        expect(toQuery(generator.keyset(parse('desc(age), id'), { age: null, id: 7 })).sql)
+            .toBe('("users"."age" is not null or ("users"."age" is null and "users"."id" > $1))');
+        expect(toQuery(generator.keyset(parse('asc(age, nullsFirst)'), { age: 3 })).sql).toBe('"users"."age" > $1');
+        expect(toQuery(generator.keyset(parse('age'), { age: null })).sql).toBe('false');
+    });
+
+    it('should require a cursor value for every sort column', () => {
+        expect(() => createKeysetFilter('asc(age), asc(id)', { age: 1 }, columnMap))
+            .toThrow(expect.objectContaining({ code: 'INVALID_CURSOR', message: "The cursor has no value for sort column 'id'." }));
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { SQL, sql } from "drizzle-orm";
+import { integer, PgDialect, pgTable, serial, text, timestamp } from "drizzle-orm/pg-core";
+import { CoercionError } from "../src/coercion";
+import { ParserError } from "../src/parser";
+import { PolicyViolationError } from "../src/policy";
+import { FilterTemplate, TemplateParameterError } from "../src/template";
+import { PlaceholderName } from "../src/typed-filter";
+import { compileFilterTemplate, convertStringToDrizzleFilter } from "../src";
+
+const users = pgTable('users', {
+    id: serial('id'),
+    tenantId: integer('tenant_id'),
+    status: text('status'),
+    createdAt: timestamp('created_at'),
+});
+const columnMap = { tenantId: users.tenantId, status: users.status, createdAt: users.createdAt };
+const dialect = new PgDialect();
+const toQuery = (filter: unknown) => dialect.sqlToQuery(filter as SQL);
+
+describe('compileFilterTemplate', () => {
+    const template = compileFilterTemplate('and(eq(tenantId, $tenant), gte(createdAt, $since), inArray(status, $statuses))', columnMap);
+
+    it('should collect the placeholders and their kinds', () => {
+        expect([...template.placeholders]).toEqual([['tenant', 'value'], ['since', 'value'], ['statuses', 'array']]);
+    });
+
+    it('should bind values as coerced query parameters', () => {
+        const since = new Date('2024-01-01T00:00:00Z');
+
+        expect(toQuery(template.bind({ tenant: '42', since: '2024-01-01T00:00:00Z', statuses: ['a', 'b'] }))).toMatchObject({
+            sql: '("users"."tenant_id" = $1 and "users"."created_at" >= $2 and "users"."status" in ($3, $4))',
+            params: [42, since.toISOString(), 'a', 'b'],
+        });
+        expect(toQuery(template.bind({ tenant: 7, since, statuses: [] })).sql)
+            .toBe('("users"."tenant_id" = $1 and "users"."created_at" >= $2 and false)');
+    });
+
+    it('should never read bound strings as columns or filter syntax', () => {
+        const byStatus = compileFilterTemplate('eq(status, $status)', columnMap);
+
+        expect(toQuery(byStatus.bind({ status: 'tenantId' }))).toMatchObject({ sql: '"users"."status" = $1', params: ['tenantId'] });
+        expect(toQuery(byStatus.bind({ status: '"), or(isNotNull(status' }))).toMatchObject({ params: ['"), or(isNotNull(status'] });
+    });
+
+    it('should generate Drizzle placeholders for prepared statements', () => {
+        const query = toQuery(compileFilterTemplate('and(eq(tenantId, $tenant), gte(createdAt, $since))', columnMap).prepare());
+
+        expect(query.sql).toBe('("users"."tenant_id" = $1 and "users"."created_at" >= $2)');
+        expect(query.params).toEqual([sql.placeholder('tenant'), sql.placeholder('since')]);
+    });
+
+    it('should reject Drizzle placeholders for lists of values', () => {
+        // Drizzle would write the list as a single parameter, `"users"."status" in $3`, which is invalid SQL.
+        expect(() => template.prepare()).toThrow(expect.objectContaining({ code: 'INVALID_PARAMETER', span: { start: 67, end: 76 } }));
+        expect(() => template.bind({ tenant: 1, since: new Date(), statuses: sql.placeholder('statuses') }))
+            .toThrow("Placeholder '$statuses' stands for the list of 'inArray', which cannot be a Drizzle placeholder; bind the list instead.");
+    });
+
+    it('should reject missing, unknown and ill-fitting values', () => {
+        const bind = (params: Record<string, unknown>) => () => template.bind(params as never);
+
+        expect(bind({ tenant: 1 })).toThrow(TemplateParameterError);
+        expect(bind({ tenant: 1 })).toThrow("Missing value for placeholder(s) '$since', '$statuses'.");
+        expect(bind({ tenant: 1, since: new Date(), statuses: [], extra: 1 }))
+            .toThrow("Unknown parameter(s) 'extra'; the template has placeholder(s) '$tenant', '$since', '$statuses'.");
+        expect(bind({ tenant: [1], since: new Date(), statuses: [] }))
+            .toThrow("Placeholder '$tenant' expects a single value (strings, numbers, booleans, null or dates).");
+        expect(bind({ tenant: 1, since: new Date(), statuses: 'a' }))
+            .toThrow("Placeholder '$statuses' expects a list of values (strings, numbers, booleans, null or dates).");
+        expect(bind({ tenant: 1, since: new Date(), statuses: [{}] })).toThrow(TemplateParameterError);
+        expect(bind({ tenant: 'abc', since: new Date(), statuses: [] })).toThrow(CoercionError);
+
+        let error: unknown;
+        try {
+            template.bind({ tenant: 1 } as never);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toMatchObject({ code: 'MISSING_PARAMETER', span: { start: 42, end: 48 } });
+    });
+
+    it('should check the policy once for the template and again for the values', () => {
+        const policy = { operators: ['and', 'eq', 'inArray'], maxArrayLength: 2, maxStringLength: 3 };
+
+        expect(() => compileFilterTemplate('gt(tenantId, $tenant)', columnMap, { policy })).toThrow("Operator 'gt' is not allowed.");
+
+        const byStatus = compileFilterTemplate('and(eq(status, $status), inArray(status, $statuses))', columnMap, { policy });
+        expect(() => byStatus.bind({ status: 'a', statuses: ['a', 'b', 'c'] }))
+            .toThrow("The list for '$statuses' has 3 elements; the maximum is 2.");
+        expect(() => byStatus.bind({ status: 'abcd', statuses: [] })).toThrow(PolicyViolationError);
+        expect(() => byStatus.bind({ status: 'abc', statuses: ['a'] })).not.toThrow();
+    });
+
+    it('should reject placeholders that do not stand for a value or a list', () => {
+        expect(() => compileFilterTemplate('eq($column, 1)' as string, columnMap)).toThrow("Placeholder '$column' can only stand for a value or a list.");
+        expect(() => compileFilterTemplate('and($filter)', columnMap)).toThrow(ParserError);
+        expect(() => compileFilterTemplate('or(eq(status, $s), inArray(status, $s))', columnMap))
+            .toThrow("Placeholder '$s' cannot stand for both a value and a list.");
+    });
+
+    it('should validate the template once if requested', () => {
+        expect(() => compileFilterTemplate('eq(tenant, $tenant)' as string, columnMap, { validate: true })).toThrow("Unknown column 'tenant'.");
+        expect(compileFilterTemplate('tenantId = $tenant', columnMap, { syntax: 'infix', validate: true })).toBeInstanceOf(FilterTemplate);
+    });
+
+    it('should report unbound placeholders in plain filter strings', () => {
+        expect(() => convertStringToDrizzleFilter('eq(status, $status)', columnMap)).toThrow("No value is bound to placeholder '$status'.");
+    });
+
+    it('should type the parameters of literal templates', () => {
+        expectTypeOf<PlaceholderName<'and(eq(tenantId, $tenant), inArray(status, $statuses))'>>().toEqualTypeOf<'tenant' | 'statuses'>();
+        expectTypeOf<PlaceholderName<'eq(tenantId, 1)'>>().toEqualTypeOf<never>();
+        expectTypeOf<PlaceholderName<string>>().toEqualTypeOf<string>();
+        expectTypeOf(template.bind).parameter(0).toHaveProperty('statuses');
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { pgTable, serial, text } from "drizzle-orm/pg-core";
+import { CheckedFilter } from "../src/typed-filter";
+import { columnMapFromTable } from "../src/column-map";
+import { relation } from "../src/relations";
+import { eq } from "drizzle-orm";
+import { convertStringToDrizzleFilter } from "../src";
+
+const organizations = pgTable('organizations', { id: serial('id'), name: text('name') });
+const users = pgTable('users', { id: serial('id'), fullName: text('full_name'), organizationId: serial('organization_id') });
+
+const columnMap = {
+    ...columnMapFromTable(users, { include: ['id', 'fullName'] }),
+    organization: relation(organizations, eq(organizations.id, users.organizationId)),
+};
+type Columns = typeof columnMap;
+
+// These assertions are checked by the type checker (e.g. `vitest --typecheck`); at runtime they are no-ops.
+describe('CheckedFilter', () => {
+    it('should accept valid literal filter strings unchanged', () => {
+        expectTypeOf<CheckedFilter<'eq("fullName", "Ann")', Columns>>().toEqualTypeOf<'eq("fullName", "Ann")'>();
+        expectTypeOf<CheckedFilter<'and(gt(id, 1), inArray(col("id"), [1, 2]), eq("organization.name", "Acme"))', Columns>>()
+            .toEqualTypeOf<'and(gt(id, 1), inArray(col("id"), [1, 2]), eq("organization.name", "Acme"))'>();
+        expectTypeOf<CheckedFilter<'or(eq(fullName, NULL), inArray(id, [TRUE, Date("2024-01-01")]))', Columns>>()
+            .toEqualTypeOf<'or(eq(fullName, NULL), inArray(id, [TRUE, Date("2024-01-01")]))'>();
+    });
+
+    it('should turn unknown columns and operators into error messages', () => {
+        expectTypeOf<CheckedFilter<'eq("full_name", "Ann")', Columns>>().toEqualTypeOf<"Unknown column 'full_name'.">();
+        expectTypeOf<CheckedFilter<'and(eq(id, 1), gt(agee, 3))', Columns>>().toEqualTypeOf<"Unknown column 'agee'.">();
+        expectTypeOf<CheckedFilter<'eqq(id, 1)', Columns>>().toEqualTypeOf<"Unknown operator 'eqq'.">();
+        expectTypeOf<CheckedFilter<'eq($id, 1)', Columns>>().toEqualTypeOf<"Placeholder '$id' cannot stand for a column.">();
+        expectTypeOf<CheckedFilter<'inArray(id, $ids)', Columns>>().toEqualTypeOf<'inArray(id, $ids)'>();
+        expectTypeOf<CheckedFilter<'search("bob")', Columns, 'search'>>().toEqualTypeOf<'search("bob")'>();
+        expectTypeOf<CheckedFilter<'eq(col("full""Name"), "say ""hi""")', Columns>>().toEqualTypeOf<"Unknown column 'full\"Name'.">();
+        expectTypeOf<CheckedFilter<'eq(fullName, "say ""hi"" \\"")', Columns>>().toEqualTypeOf<'eq(fullName, "say ""hi"" \\"")'>();
+    });
+
+    it('should fall back to runtime checks for dynamic and unparsed strings', () => {
+        expectTypeOf<CheckedFilter<string, Columns>>().toEqualTypeOf<string>();
+        expectTypeOf<CheckedFilter<'fullName = "Ann"', Columns>>().toEqualTypeOf<'fullName = "Ann"'>();
+    });
+
+    it('should leave literals too large to check unchecked', () => {
+        const ten = 'eq(id, 1), eq(id, 2), eq(id, 3), eq(id, 4), eq(id, 5), eq(id, 6), eq(id, 7), eq(id, 8), eq(id, 9), eq(id, 10)';
+        // A literal with 150 comparisons, built as a const template literal so that its type is the literal itself.
+        const long = `and(${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten}, ${ten})` as const;
+        type Long = typeof long;
+        type Deep = `${'not(not(not(not(not(not(not(not(not(not('}${'not(not(not(not(not(not(not(not(not(not('}${'not(not(not(not(not(not(not(not(not(not('}${'not(not(not(not(not(not(not(not(not(not('}${'not(not(not(not(not(not(not(not(not(not('}eq(id, 1)${'))))))))))))))))))))))))))))))))))))))))))))))))))'}`;
+
+        expectTypeOf<CheckedFilter<Long, Columns>>().toEqualTypeOf<string>();
+        expectTypeOf<CheckedFilter<Deep, Columns>>().toEqualTypeOf<string>();
+
+        expectTypeOf<Long>().not.toEqualTypeOf<string>();
+        expect(convertStringToDrizzleFilter(long, columnMap)).toBeDefined();
+    });
+});
+
+describe('convertStringToDrizzleFilter with a typed column map', () => {
+    it('should still convert checked literal strings at runtime', () => {
+        expect(convertStringToDrizzleFilter('eq(fullName, "Ann")', columnMap)).toBeDefined();
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { integer, pgTable, text } from "drizzle-orm/pg-core";
+import { Lexer } from "../src/lexer";
+import { Parser } from "../src/parser";
+import { Validator, ValidationError } from "../src/validator";
+import { convertStringToDrizzleFilter, validateFilterString } from "../src";
+import { ColumnMap } from "../src/generator";
+
+const users = pgTable('users', {
+    name: text('name'),
+    age: integer('age'),
+});
+
+const columnMap: ColumnMap = { name: users.name, age: users.age };
+
+function validate(input: string): ValidationError[] {
+    const ast = new Parser(new Lexer(input)).parse();
+    return new Validator(columnMap).validate(ast);
+}
+
+describe('Validator', () => {
+    it('should accept valid filters', () => {
+        expect(validate('and(eq("name", "Alice"), between("age", 18, 65), inArray("age", [1, 2]))')).toEqual([]);
+        expect(validate('or(like("name", "A%"), isNull("age"), gt("age", "age"))')).toEqual([]);
+    });
+
+    it('should report unknown columns', () => {
+        const [error] = validate('eq("nme", "Alice")');
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toMatchObject({ code: 'UNKNOWN_COLUMN', message: "Unknown column 'nme'.", span: { start: 3, end: 8 } });
+    });
+
+    it('should report wrong argument counts', () => {
+        expect(validate('eq("name", "a", "b")')[0]).toMatchObject({ code: 'ARGUMENT_COUNT', message: "'eq' expects 2 arguments but got 3." });
+        expect(validate('between("age", 1)')[0]).toMatchObject({ code: 'ARGUMENT_COUNT', message: "'between' expects 3 arguments but got 2." });
+        expect(validate('and()')[0]).toMatchObject({ code: 'ARGUMENT_COUNT', message: "'and' expects at least 1 argument but got 0." });
+    });
+
+    it('should report operators applied to columns of the wrong type', () => {
+        const [error] = validate('like("age", "1%")');
+
+        expect(error).toMatchObject({ code: 'TYPE_MISMATCH', message: "'like' cannot be applied to column 'age' of type number." });
+    });
+
+    it('should check the array operators against array columns', () => {
+        expect(validate('ne("age", 3)')).toEqual([]);
+        expect(validate('arrayContains("age", [1])')[0]).toMatchObject({
+            code: 'TYPE_MISMATCH',
+            message: "'arrayContains' cannot be applied to column 'age' of type number.",
+        });
+    });
+
+    it('should report arguments of the wrong kind', () => {
+        expect(validate('not("name")')[0]).toMatchObject({ code: 'TYPE_MISMATCH', message: 'Expected a filter expression but got a string literal.' });
+        expect(validate('inArray("age", 3)')[0]).toMatchObject({ code: 'TYPE_MISMATCH', message: "'inArray' expects an array literal but got a number literal." });
+        expect(validate('eq(3, "a")')[0]).toMatchObject({ code: 'TYPE_MISMATCH', message: "'eq' expects a column name but got a number literal." });
+    });
+
+    it('should report values that do not fit the column type', () => {
+        const [error] = validate('gt("age", "old")');
+
+        expect(error).toMatchObject({ code: 'COERCION_FAILED', message: "Cannot coerce value \"old\" to number for column 'age'.", span: { start: 10, end: 15 } });
+        expect(validate('inArray("age", [1, "x"])')[0]).toMatchObject({ code: 'COERCION_FAILED', span: { start: 19, end: 22 } });
+    });
+
+    it('should skip value checks when coercion is disabled', () => {
+        const ast = new Parser(new Lexer('gt("age", "old")')).parse();
+
+        expect(new Validator(columnMap, { coerceValues: false }).validate(ast)).toEqual([]);
+    });
+
+    it('should accept column references and reject quoted column names in strict mode', () => {
+        const parse = (input: string) => new Parser(new Lexer(input)).parse();
+        const strict = new Validator(columnMap, { strict: true });
+
+        expect(strict.validate(parse('and(eq(name, "age"), gt(age, col("age")))'))).toEqual([]);
+        expect(strict.validate(parse('eq("name", "Alice")'))[0]).toMatchObject({
+            code: 'TYPE_MISMATCH',
+            message: "'eq' expects a column reference but got a string literal.",
+        });
+        expect(strict.validate(parse('lt(age, agee)'))[0]).toMatchObject({ code: 'UNKNOWN_COLUMN', message: "Unknown column 'agee'." });
+    });
+
+    it('should collect every error in source order', () => {
+        const errors = validate('and(eq("nme", 1), near("age", 2), lt("age", "x", 3))');
+
+        expect(errors.map(e => e.code)).toEqual(['UNKNOWN_COLUMN', 'UNSUPPORTED_FUNCTION', 'ARGUMENT_COUNT', 'COERCION_FAILED']);
+    });
+});
+
+describe('validateFilterString', () => {
+    it('should return syntax and validation diagnostics together', () => {
+        const diagnostics = validateFilterString('and(eq("nme", 1), gt("age", 3)))', columnMap);
+
+        expect(diagnostics.map(d => d.code)).toEqual(['UNEXPECTED_TOKEN', 'UNKNOWN_COLUMN']);
+        expect(diagnostics[1]?.excerpt).toBe('and(eq("nme", 1), gt("age", 3)))\n       ^^^^^');
+    });
+
+    it('should return an empty array for valid filters', () => {
+        expect(validateFilterString('name = "Bob" and age >= 18', columnMap, { syntax: 'infix' })).toEqual([]);
+    });
+});
+
+describe('convertStringToDrizzleFilter with validate', () => {
+    it('should throw the first validation error', () => {
+        expect(() => convertStringToDrizzleFilter('eq("nme", "Alice")', columnMap, { validate: true }))
+            .toThrow("Unknown column 'nme'.");
+    });
+
+    it('should generate valid filters', () => {
+        expect(convertStringToDrizzleFilter('eq("name", "Alice")', columnMap, { validate: true })).toBeDefined();
+    });
+});